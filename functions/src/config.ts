@@ -0,0 +1,49 @@
+// Environment configuration, loaded before any other module reads it
+import * as dotenv from "dotenv";
+import * as functions from "firebase-functions/v2";
+import * as logger from "firebase-functions/logger";
+
+// Load environment variables from .env (for local development only)
+dotenv.config();
+
+// Helper to get environment variables from either .env or Firebase Config
+export const getConfig = (key: string, defaultValue: string = ""): string => {
+    // For local development, use .env
+    if (process.env[key]) {
+        return process.env[key] as string;
+    }
+    return defaultValue;
+};
+
+/**
+ * Read a secret that has no safe default, failing closed when it is not configured
+ */
+export const requireSecret = (key: string): string => {
+    const value = getConfig(key);
+    if (!value) {
+        logger.error(`${key} is not configured`);
+        throw new functions.https.HttpsError(
+            "unavailable",
+            "This service is not available right now"
+        );
+    }
+    return value;
+};
+
+/**
+ * Fail at startup when any of the given secrets is missing, naming every missing key
+ */
+export const assertRequiredSecrets = (keys: string[]): void => {
+    const missing = keys.filter((key) => !getConfig(key));
+    if (missing.length) {
+        const message = `Missing required configuration: ${missing.join(", ")}`;
+        logger.error(message);
+        throw new Error(message);
+    }
+};
+
+// Helper to read numeric settings with a fallback when unset or malformed
+export const getNumberConfig = (key: string, defaultValue: number): number => {
+    const value = Number(getConfig(key));
+    return getConfig(key) && Number.isFinite(value) ? value : defaultValue;
+};
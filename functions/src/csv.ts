@@ -0,0 +1,59 @@
+// CSV reading and writing for bulk imports and exports
+
+/**
+ * Parse CSV text into rows of cells, honouring double-quoted cells with escaped quotes
+ */
+export const parseCsv = (content: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === "\"" && content[i + 1] === "\"") {
+                cell += "\"";
+                i++;
+            } else if (char === "\"") {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === "\"") {
+            inQuotes = true;
+        } else if (char === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && content[i + 1] === "\n") {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    // Ignore blank lines
+    return rows.filter((cells) => cells.some((value) => value.trim()));
+};
+
+/**
+ * Escape a value for a CSV cell
+ * Values a spreadsheet would read as a formula are prefixed with a quote so they stay plain text
+ */
+export const toCsvCell = (value: unknown): string => {
+    let text = value === null || value === undefined ? "" : String(value);
+    if (/^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+};
@@ -7,12 +7,36 @@
  * See a full list of supported triggers at https://firebase.google.com/docs/functions
  */
 
+import { assertRequiredSecrets, getConfig, getNumberConfig, requireSecret } from "./config";
 import * as functions from "firebase-functions/v2";
 import { CallableRequest } from "firebase-functions/v2/https";
 import * as admin from "firebase-admin";
 import * as nodemailer from "nodemailer";
 import * as logger from "firebase-functions/logger";
-import * as dotenv from "dotenv";
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parseCsv, toCsvCell } from "./csv";
+import {
+    DEFAULT_MODERATION_DETECTORS,
+    MODERATION_VERDICT_RANK,
+    ModerationDetectors,
+    ModerationRule,
+    ModerationScope,
+    ModerationVerdict,
+    moderateMessage,
+    validateModerationRules,
+} from "./moderation";
+import { generateOtp, hashOtp, otpMatches } from "./otp";
+import {
+    MESSAGE_CHALLENGE_TTL_SECONDS,
+    MESSAGE_POW_DIFFICULTY,
+    hashIdentifier,
+    hashVisitor,
+    issueMessageChallengeToken,
+    signUnsubscribe,
+    verifyMessageChallenge,
+} from "./security";
 // Additional type for creating org admin
 interface CreateOrgAdminData {
     email: string;
@@ -20,839 +44,7489 @@ interface CreateOrgAdminData {
     organizationId: string;
     organizationName: string;
     dashboardUrl?: string;
+    locale?: string;
+    idempotencyKey?: string;
 }
-// Load environment variables from .env (for local development only)
-dotenv.config();
-
 // Initialize Firebase Admin
 admin.initializeApp();
 
-// Helper to get environment variables from either .env or Firebase Config
-const getConfig = (key: string, defaultValue: string = ""): string => {
-    // For local development, use .env
-    if (process.env[key]) {
-        return process.env[key] as string;
+// Secrets with no safe default; a deploy without them fails here instead of on every request
+assertRequiredSecrets([
+    "IP_HASH_SECRET",
+    "MESSAGE_CHALLENGE_SECRET",
+    "OUTBOX_ENCRYPTION_KEY",
+    "UNSUBSCRIBE_SECRET",
+    "VISITOR_HASH_SECRET",
+]);
+
+// Outgoing email message shared by every mail provider
+interface MailMessage {
+    from: string;
+    to: string;
+    subject: string;
+    html: string;
+    text?: string;
+    headers?: Record<string, string>;
+}
+
+// A mail driver selected by MAIL_DRIVER
+interface MailProvider {
+    name: string;
+    configured: boolean;
+    send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * SMTP driver (SMTP_SERVICE such as "gmail", or an explicit SMTP_HOST/SMTP_PORT)
+ */
+const createSmtpMailProvider = (): MailProvider => {
+    const user = getConfig("EMAIL_USER");
+    const pass = getConfig("EMAIL_PASS");
+    const service = getConfig("SMTP_SERVICE");
+    const host = getConfig("SMTP_HOST");
+    const port = Number(getConfig("SMTP_PORT", "587"));
+    const transporter = nodemailer.createTransport(service ?
+        { service, auth: { user, pass } } :
+        { host, port, secure: port === 465, auth: { user, pass } });
+
+    return {
+        name: "smtp",
+        configured: !!user && !!pass && (!!service || !!host),
+        send: async (message) => {
+            await transporter.sendMail(message);
+        },
+    };
+};
+
+/**
+ * HTTP API driver that POSTs the message as JSON to MAIL_API_URL with a bearer MAIL_API_KEY
+ */
+const createHttpMailProvider = (): MailProvider => {
+    const url = getConfig("MAIL_API_URL");
+    const apiKey = getConfig("MAIL_API_KEY");
+
+    return {
+        name: "http",
+        configured: !!url && !!apiKey,
+        send: async (message) => {
+            const response = await fetch(url, {
+                method: "POST",
+                headers: {
+                    "Authorization": `Bearer ${apiKey}`,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify(message),
+            });
+            if (!response.ok) {
+                throw new Error(`Mail API responded with ${response.status}: ${await response.text()}`);
+            }
+        },
+    };
+};
+
+/**
+ * Local driver for the emulator and tests: writes .eml files to MAIL_LOCAL_DIR, or logs when unset
+ */
+const createLocalMailProvider = (): MailProvider => {
+    const outputDir = getConfig("MAIL_LOCAL_DIR");
+    const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+    return {
+        name: "local",
+        configured: true,
+        send: async (message) => {
+            if (!outputDir) {
+                // Bodies carry codes and tokens, so only the envelope is logged
+                logger.info("Local mail driver message", { to: message.to, subject: message.subject });
+                return;
+            }
+            const info = await transporter.sendMail(message);
+            await fs.mkdir(outputDir, { recursive: true });
+            const fileName = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.eml`;
+            await fs.writeFile(path.join(outputDir, fileName), info.message as Buffer);
+            logger.info("Local mail driver wrote message", { file: fileName, to: message.to });
+        },
+    };
+};
+
+/**
+ * Pick the mail provider from configuration; the emulator defaults to the local driver
+ */
+const createMailProvider = (): MailProvider => {
+    const driver = getConfig("MAIL_DRIVER", process.env.FUNCTIONS_EMULATOR === "true" ? "local" : "smtp");
+    switch (driver) {
+        case "http":
+            return createHttpMailProvider();
+        case "local":
+            return createLocalMailProvider();
+        case "smtp":
+            return createSmtpMailProvider();
+        default:
+            // Don't throw at load time: that would take down every function, not just email
+            logger.error(`Unknown MAIL_DRIVER "${driver}"; email delivery is disabled`);
+            return {
+                name: driver,
+                configured: false,
+                send: async () => {
+                    throw new Error(`Unknown MAIL_DRIVER "${driver}"`);
+                },
+            };
+    }
+};
+
+const mailProvider = createMailProvider();
+
+// Address used in the From header of every email
+const MAIL_FROM_ADDRESS = getConfig("MAIL_FROM", getConfig("EMAIL_USER"));
+
+// Admin dashboard linked from admin emails
+const DASHBOARD_URL = getConfig("DASHBOARD_URL", "https://tickl-dashboard.web.app");
+
+/**
+ * Dashboard link for admin emails: the caller's URL if it is https, otherwise DASHBOARD_URL
+ * Anything else (javascript:, data:, http:) would end up in an href, so it is rejected
+ */
+const resolveDashboardUrl = (value: unknown): string => {
+    if (value === undefined || value === null || value === "") {
+        return DASHBOARD_URL;
+    }
+
+    let url: URL | null = null;
+    try {
+        url = new URL(String(value));
+    } catch {
+        url = null;
+    }
+    if (!url || url.protocol !== "https:") {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            "Dashboard URL must be an https:// address"
+        );
+    }
+    return url.toString();
+};
+
+// HTML that has already been escaped and can be embedded as-is
+class SafeHtml {
+    constructor(readonly value: string) {}
+}
+
+/**
+ * Escape a value for use in HTML text or attribute values
+ */
+const escapeHtml = (value: string): string => {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+};
+
+/**
+ * Render a value for embedding in HTML: SafeHtml as-is, arrays joined, null/undefined/false as nothing
+ */
+const renderHtmlValue = (value: unknown): string => {
+    if (value instanceof SafeHtml) {
+        return value.value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(renderHtmlValue).join("");
     }
-    return defaultValue;
+    if (value === null || value === undefined || value === false) {
+        return "";
+    }
+    return escapeHtml(String(value));
+};
+
+/**
+ * Tagged template that escapes every interpolated value unless it is already SafeHtml
+ */
+const html = (strings: TemplateStringsArray, ...values: unknown[]): SafeHtml => {
+    return new SafeHtml(strings.reduce((result, part, i) => result + renderHtmlValue(values[i - 1]) + part));
+};
+
+/**
+ * Derive a plaintext alternative from rendered email HTML
+ */
+const htmlToText = (markup: string): string => {
+    return markup
+        .replace(/<a [^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, (_match, href: string, label: string) =>
+            label === href ? href : `${label} (${href})`)
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<\/(p|h[1-6]|div|li)>/gi, "\n")
+        .replace(/<[^>]+>/g, "")
+        .replace(/&quot;/g, "\"")
+        .replace(/&#39;/g, "'")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&amp;/g, "&")
+        .split("\n")
+        .map((line) => line.trim())
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
 };
 
+/**
+ * Shared layout wrapped around every email body
+ */
+const emailLayout = (locale: string, title: string, body: SafeHtml): SafeHtml => html`
+      <div lang="${locale}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #3b82f6;">${title}</h2>
+        ${body}
+      </div>
+    `;
+
+// Locale used when neither the user nor the organization has a supported one
+const DEFAULT_LOCALE = getConfig("DEFAULT_LOCALE", "en");
 
-// Create Nodemailer transporter
-const transporter = nodemailer.createTransport({
-    service: "gmail",
-    auth: {
-        user: getConfig("EMAIL_USER", "prakashkrjha04@gmail.com"),
-        pass: getConfig("EMAIL_PASS", "vjheiwvpsceqffyq"),
+// Email strings per locale; {name} placeholders are filled (and escaped) at render time
+const emailTranslations: Record<string, Record<string, string>> = {
+    en: {
+        "common.greeting": "Hello,",
+        "common.team": "The Tickl Team",
+        "verificationCode.subject": "Verify Your Company Email",
+        "verificationCode.title": "Verify Your Company Email",
+        "verificationCode.code": "Your verification code is: {code}",
+        "verificationCode.magicLink": "Or verify instantly by opening this link: {link}",
+        "verificationCode.magicLinkLabel": "Verify my email",
+        "verificationCode.expiry": "This code will expire {expiry}.",
+        "verificationCode.ignore": "If you didn't request this code, please ignore this email.",
+        "adminCredentials.subject": "Your Admin Access to {organization} on Tickl",
+        "adminCredentials.title": "Tickl Organization Access",
+        "adminCredentials.granted": "You have been granted administrator access to {organization} on Tickl.",
+        "adminCredentials.credentialsIntro": "Here are your login credentials:",
+        "adminCredentials.emailLabel": "Email:",
+        "adminCredentials.passwordLabel": "Password:",
+        "adminCredentials.dashboardIntro": "You can access the admin dashboard here:",
+        "adminCredentials.changePassword": "For security reasons, please change your password after your first login.",
+        "adminCredentials.questions": "If you have any questions, please contact the organization owner.",
+        "adminCredentials.thanks": "Thank you,",
+        "organizationApproved.subject": "Your Organization {organization} Has Been Approved on Tickl",
+        "organizationApproved.title": "Organization Approved",
+        "organizationApproved.approved": "Your organization {organization} has been approved on Tickl!",
+        "organizationApproved.features": "You can now access all administration features and manage your organization's settings.",
+        "organizationApproved.thanks": "Thank you for using Tickl.",
+        "organizationApproved.regards": "Best regards,",
+        "adminInvite.subject": "You're invited to administer {organization} on Tickl",
+        "adminInvite.title": "Tickl Organization Invitation",
+        "adminInvite.invited": "You have been invited to become an administrator of {organization} on Tickl.",
+        "adminInvite.accept": "Accept the invitation and choose your password here:",
+        "adminInvite.acceptLabel": "Accept invitation",
+        "adminInvite.expiry": "This invitation will expire {expiry}.",
+        "adminInvite.ignore": "If you weren't expecting this invitation, you can ignore this email.",
+        "organizationRejected.subject": "Your Organization Application for {organization} Was Not Approved",
+        "organizationRejected.title": "Application Not Approved",
+        "organizationRejected.rejected": "Unfortunately, the application for {organization} on Tickl was not approved.",
+        "organizationSuspended.subject": "Your Organization {organization} Has Been Suspended on Tickl",
+        "organizationSuspended.title": "Organization Suspended",
+        "organizationSuspended.suspended": "Your organization {organization} has been suspended on Tickl. Email verification and public links are paused until it is reinstated.",
+        "organizationStatus.reason": "Reason: {reason}",
+        "organizationStatus.contact": "If you have any questions, please reply to this email.",
+        "newMessage.subject": "You have a new anonymous message on Tickl",
+        "newMessage.title": "New Message",
+        "newMessage.received": "You've received a new anonymous message:",
+        "notifications.openInbox": "Open your inbox",
+        "messageDigest.dailySubject": "Your daily Tickl digest ({count} new)",
+        "messageDigest.weeklySubject": "Your weekly Tickl digest ({count} new)",
+        "messageDigest.title": "Your Message Digest",
+        "messageDigest.dailySummary": "New anonymous messages in the last day: {count}",
+        "messageDigest.weeklySummary": "New anonymous messages in the last week: {count}",
+        "messageDigest.latest": "The latest ones:",
+        "notifications.unsubscribe": "Don't want these emails? {link}",
+        "notifications.unsubscribeLabel": "Unsubscribe",
     },
-});
+    es: {
+        "common.greeting": "Hola,",
+        "common.team": "El equipo de Tickl",
+        "verificationCode.subject": "Verifica tu correo de empresa",
+        "verificationCode.title": "Verifica tu correo de empresa",
+        "verificationCode.code": "Tu código de verificación es: {code}",
+        "verificationCode.magicLink": "O verifícalo al instante abriendo este enlace: {link}",
+        "verificationCode.magicLinkLabel": "Verificar mi correo",
+        "verificationCode.expiry": "Este código caducará {expiry}.",
+        "verificationCode.ignore": "Si no solicitaste este código, ignora este correo.",
+        "adminCredentials.subject": "Tu acceso de administrador a {organization} en Tickl",
+        "adminCredentials.title": "Acceso a la organización en Tickl",
+        "adminCredentials.granted": "Se te ha concedido acceso de administrador a {organization} en Tickl.",
+        "adminCredentials.credentialsIntro": "Estas son tus credenciales de acceso:",
+        "adminCredentials.emailLabel": "Correo:",
+        "adminCredentials.passwordLabel": "Contraseña:",
+        "adminCredentials.dashboardIntro": "Puedes acceder al panel de administración aquí:",
+        "adminCredentials.changePassword": "Por motivos de seguridad, cambia tu contraseña después de iniciar sesión por primera vez.",
+        "adminCredentials.questions": "Si tienes alguna pregunta, contacta con el propietario de la organización.",
+        "adminCredentials.thanks": "Gracias,",
+        "organizationApproved.subject": "Tu organización {organization} ha sido aprobada en Tickl",
+        "organizationApproved.title": "Organización aprobada",
+        "organizationApproved.approved": "¡Tu organización {organization} ha sido aprobada en Tickl!",
+        "organizationApproved.features": "Ya puedes acceder a todas las funciones de administración y gestionar la configuración de tu organización.",
+        "organizationApproved.thanks": "Gracias por usar Tickl.",
+        "organizationApproved.regards": "Saludos cordiales,",
+        "adminInvite.subject": "Te han invitado a administrar {organization} en Tickl",
+        "adminInvite.title": "Invitación a una organización en Tickl",
+        "adminInvite.invited": "Te han invitado a ser administrador de {organization} en Tickl.",
+        "adminInvite.accept": "Acepta la invitación y elige tu contraseña aquí:",
+        "adminInvite.acceptLabel": "Aceptar invitación",
+        "adminInvite.expiry": "Esta invitación caducará {expiry}.",
+        "adminInvite.ignore": "Si no esperabas esta invitación, puedes ignorar este correo.",
+        "organizationRejected.subject": "La solicitud de tu organización {organization} no ha sido aprobada",
+        "organizationRejected.title": "Solicitud no aprobada",
+        "organizationRejected.rejected": "Lamentablemente, la solicitud de {organization} en Tickl no ha sido aprobada.",
+        "organizationSuspended.subject": "Tu organización {organization} ha sido suspendida en Tickl",
+        "organizationSuspended.title": "Organización suspendida",
+        "organizationSuspended.suspended": "Tu organización {organization} ha sido suspendida en Tickl. La verificación de correo y los enlaces públicos quedan en pausa hasta que se restablezca.",
+        "organizationStatus.reason": "Motivo: {reason}",
+        "organizationStatus.contact": "Si tienes alguna pregunta, responde a este correo.",
+        "newMessage.subject": "Tienes un nuevo mensaje anónimo en Tickl",
+        "newMessage.title": "Nuevo mensaje",
+        "newMessage.received": "Has recibido un nuevo mensaje anónimo:",
+        "notifications.openInbox": "Abrir tu bandeja de entrada",
+        "messageDigest.dailySubject": "Tu resumen diario de Tickl ({count} nuevos)",
+        "messageDigest.weeklySubject": "Tu resumen semanal de Tickl ({count} nuevos)",
+        "messageDigest.title": "Tu resumen de mensajes",
+        "messageDigest.dailySummary": "Mensajes anónimos nuevos en el último día: {count}",
+        "messageDigest.weeklySummary": "Mensajes anónimos nuevos en la última semana: {count}",
+        "messageDigest.latest": "Los más recientes:",
+        "notifications.unsubscribe": "¿No quieres recibir estos correos? {link}",
+        "notifications.unsubscribeLabel": "Darse de baja",
+    },
+    fr: {
+        "common.greeting": "Bonjour,",
+        "common.team": "L'équipe Tickl",
+        "verificationCode.subject": "Vérifiez votre adresse e-mail professionnelle",
+        "verificationCode.title": "Vérifiez votre adresse e-mail professionnelle",
+        "verificationCode.code": "Votre code de vérification est : {code}",
+        "verificationCode.magicLink": "Ou vérifiez-la immédiatement en ouvrant ce lien : {link}",
+        "verificationCode.magicLinkLabel": "Vérifier mon adresse e-mail",
+        "verificationCode.expiry": "Ce code expirera {expiry}.",
+        "verificationCode.ignore": "Si vous n'avez pas demandé ce code, ignorez cet e-mail.",
+        "adminCredentials.subject": "Votre accès administrateur à {organization} sur Tickl",
+        "adminCredentials.title": "Accès à l'organisation sur Tickl",
+        "adminCredentials.granted": "Vous avez reçu un accès administrateur à {organization} sur Tickl.",
+        "adminCredentials.credentialsIntro": "Voici vos identifiants de connexion :",
+        "adminCredentials.emailLabel": "E-mail :",
+        "adminCredentials.passwordLabel": "Mot de passe :",
+        "adminCredentials.dashboardIntro": "Vous pouvez accéder au tableau de bord d'administration ici :",
+        "adminCredentials.changePassword": "Pour des raisons de sécurité, veuillez changer votre mot de passe après votre première connexion.",
+        "adminCredentials.questions": "Pour toute question, contactez le propriétaire de l'organisation.",
+        "adminCredentials.thanks": "Merci,",
+        "organizationApproved.subject": "Votre organisation {organization} a été approuvée sur Tickl",
+        "organizationApproved.title": "Organisation approuvée",
+        "organizationApproved.approved": "Votre organisation {organization} a été approuvée sur Tickl !",
+        "organizationApproved.features": "Vous pouvez désormais accéder à toutes les fonctions d'administration et gérer les paramètres de votre organisation.",
+        "organizationApproved.thanks": "Merci d'utiliser Tickl.",
+        "organizationApproved.regards": "Cordialement,",
+        "adminInvite.subject": "Vous êtes invité à administrer {organization} sur Tickl",
+        "adminInvite.title": "Invitation à une organisation sur Tickl",
+        "adminInvite.invited": "Vous avez été invité à devenir administrateur de {organization} sur Tickl.",
+        "adminInvite.accept": "Acceptez l'invitation et choisissez votre mot de passe ici :",
+        "adminInvite.acceptLabel": "Accepter l'invitation",
+        "adminInvite.expiry": "Cette invitation expirera {expiry}.",
+        "adminInvite.ignore": "Si vous n'attendiez pas cette invitation, vous pouvez ignorer cet e-mail.",
+        "organizationRejected.subject": "La demande de votre organisation {organization} n'a pas été approuvée",
+        "organizationRejected.title": "Demande non approuvée",
+        "organizationRejected.rejected": "Malheureusement, la demande pour {organization} sur Tickl n'a pas été approuvée.",
+        "organizationSuspended.subject": "Votre organisation {organization} a été suspendue sur Tickl",
+        "organizationSuspended.title": "Organisation suspendue",
+        "organizationSuspended.suspended": "Votre organisation {organization} a été suspendue sur Tickl. La vérification des e-mails et les liens publics sont suspendus jusqu'à sa réactivation.",
+        "organizationStatus.reason": "Motif : {reason}",
+        "organizationStatus.contact": "Pour toute question, répondez à cet e-mail.",
+        "newMessage.subject": "Vous avez un nouveau message anonyme sur Tickl",
+        "newMessage.title": "Nouveau message",
+        "newMessage.received": "Vous avez reçu un nouveau message anonyme :",
+        "notifications.openInbox": "Ouvrir votre boîte de réception",
+        "messageDigest.dailySubject": "Votre récapitulatif quotidien Tickl ({count} nouveaux)",
+        "messageDigest.weeklySubject": "Votre récapitulatif hebdomadaire Tickl ({count} nouveaux)",
+        "messageDigest.title": "Votre récapitulatif de messages",
+        "messageDigest.dailySummary": "Nouveaux messages anonymes au cours de la dernière journée : {count}",
+        "messageDigest.weeklySummary": "Nouveaux messages anonymes au cours de la dernière semaine : {count}",
+        "messageDigest.latest": "Les plus récents :",
+        "notifications.unsubscribe": "Vous ne souhaitez plus recevoir ces e-mails ? {link}",
+        "notifications.unsubscribeLabel": "Se désabonner",
+    },
+};
 
-// Define types for the function parameters
-interface EmailVerificationData {
-    email: string;
-    organizationId: string;
+/**
+ * Pick the first supported locale from the candidates (exact match, then base language)
+ */
+const resolveLocale = (...candidates: Array<string | null | undefined>): string => {
+    for (const candidate of candidates) {
+        if (!candidate) {
+            continue;
+        }
+        const normalized = candidate.replace("_", "-");
+        const match = Object.keys(emailTranslations).find((locale) => locale.toLowerCase() === normalized.toLowerCase()) ||
+            Object.keys(emailTranslations).find((locale) => locale === normalized.split("-")[0].toLowerCase());
+        if (match) {
+            return match;
+        }
+    }
+    return emailTranslations[DEFAULT_LOCALE] ? DEFAULT_LOCALE : "en";
+};
+
+// Looks up email strings for one locale, falling back to the default locale per key
+interface EmailTranslator {
+    locale: string;
+    text(key: string, params?: Record<string, string | number>): string;
+    html(key: string, params?: Record<string, unknown>): SafeHtml;
 }
 
-interface OtpVerificationData {
-    otp: string;
+/**
+ * Build a translator for a supported locale
+ */
+const createTranslator = (locale: string): EmailTranslator => {
+    const lookup = (key: string): string => {
+        return emailTranslations[locale]?.[key] ??
+            emailTranslations[resolveLocale(DEFAULT_LOCALE)]?.[key] ??
+            key;
+    };
+
+    return {
+        locale,
+        text: (key, params = {}) => lookup(key).replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+            name in params ? String(params[name]) : placeholder),
+        html: (key, params = {}) => {
+            // Odd indexes of the split are placeholder names
+            const parts = lookup(key).split(/\{(\w+)\}/);
+            return new SafeHtml(parts
+                .map((part, i) => i % 2 === 0 ? escapeHtml(part) : renderHtmlValue(params[part]))
+                .join(""));
+        },
+    };
+};
+
+/**
+ * Localized "in 15 minutes" style text
+ */
+const formatRelativeTime = (locale: string, value: number, unit: Intl.RelativeTimeFormatUnit): string => {
+    return new Intl.RelativeTimeFormat(locale, { numeric: "always" }).format(value, unit);
+};
+
+// A registered email: sender name, subject and body, plus sample data for previews
+interface EmailTemplate<T> {
+    fromName: string;
+    subject: (data: T, t: EmailTranslator) => string;
+    title: (data: T, t: EmailTranslator) => string;
+    body: (data: T, t: EmailTranslator) => SafeHtml;
+    sampleData: T;
 }
 
-interface AdminCredentialsData {
-    email: string;
-    password: string;
-    organizationName: string;
-    dashboardUrl?: string;
+/**
+ * Helper that keeps each template's data type when registering it
+ */
+const defineEmailTemplate = <T>(template: EmailTemplate<T>): EmailTemplate<T> => template;
+
+const emailTemplates = {
+    verificationCode: defineEmailTemplate<{ otp: string; expiresInMinutes: number; magicLink?: string | null }>({
+        fromName: "Tickl",
+        subject: (_data, t) => t.text("verificationCode.subject"),
+        title: (_data, t) => t.text("verificationCode.title"),
+        body: (data, t) => html`
+        <p>${t.html("verificationCode.code", { code: html`<strong>${data.otp}</strong>` })}</p>
+        ${data.magicLink && html`<p>${t.html("verificationCode.magicLink", {
+            link: html`<a href="${data.magicLink}">${t.text("verificationCode.magicLinkLabel")}</a>`,
+        })}</p>`}
+        <p>${t.html("verificationCode.expiry", { expiry: formatRelativeTime(t.locale, data.expiresInMinutes, "minute") })}</p>
+        <p>${t.html("verificationCode.ignore")}</p>`,
+        sampleData: { otp: "1234", expiresInMinutes: 15, magicLink: "https://example.com/verifyEmailLink?token=sample" },
+    }),
+    adminCredentials: defineEmailTemplate<{ organizationName: string; email: string; password: string; dashboardUrl: string }>({
+        fromName: "Tickl Admin",
+        subject: (data, t) => t.text("adminCredentials.subject", { organization: data.organizationName }),
+        title: (_data, t) => t.text("adminCredentials.title"),
+        body: (data, t) => html`
+        <p>${t.html("common.greeting")}</p>
+        <p>${t.html("adminCredentials.granted", { organization: html`<strong>${data.organizationName}</strong>` })}</p>
+        <p>${t.html("adminCredentials.credentialsIntro")}</p>
+        <div style="background-color: #f3f4f6; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <p style="margin: 5px 0;"><strong>${t.html("adminCredentials.emailLabel")}</strong> ${data.email}</p>
+          <p style="margin: 5px 0;"><strong>${t.html("adminCredentials.passwordLabel")}</strong> ${data.password}</p>
+        </div>
+        <p>${t.html("adminCredentials.dashboardIntro")}</p>
+        <p><a href="${data.dashboardUrl}" style="color: #3b82f6;">${data.dashboardUrl}</a></p>
+        <p>${t.html("adminCredentials.changePassword")}</p>
+        <p>${t.html("adminCredentials.questions")}</p>
+        <p>${t.html("adminCredentials.thanks")}</p>
+        <p>${t.html("common.team")}</p>`,
+        sampleData: {
+            organizationName: "Acme Inc.",
+            email: "admin@acme.com",
+            password: "example-password",
+            dashboardUrl: "https://tickl-dashboard.web.app",
+        },
+    }),
+    organizationApproved: defineEmailTemplate<{ organizationName: string }>({
+        fromName: "Tickl Admin",
+        subject: (data, t) => t.text("organizationApproved.subject", { organization: data.organizationName }),
+        title: (_data, t) => t.text("organizationApproved.title"),
+        body: (data, t) => html`
+        <p>${t.html("common.greeting")}</p>
+        <p>${t.html("organizationApproved.approved", { organization: html`<strong>${data.organizationName}</strong>` })}</p>
+        <p>${t.html("organizationApproved.features")}</p>
+        <p>${t.html("organizationApproved.thanks")}</p>
+        <p>${t.html("organizationApproved.regards")}</p>
+        <p>${t.html("common.team")}</p>`,
+        sampleData: { organizationName: "Acme Inc." },
+    }),
+    adminInvite: defineEmailTemplate<{ organizationName: string; acceptUrl: string; expiresInHours: number }>({
+        fromName: "Tickl Admin",
+        subject: (data, t) => t.text("adminInvite.subject", { organization: data.organizationName }),
+        title: (_data, t) => t.text("adminInvite.title"),
+        body: (data, t) => html`
+        <p>${t.html("common.greeting")}</p>
+        <p>${t.html("adminInvite.invited", { organization: html`<strong>${data.organizationName}</strong>` })}</p>
+        <p>${t.html("adminInvite.accept")}</p>
+        <p><a href="${data.acceptUrl}" style="color: #3b82f6;">${t.text("adminInvite.acceptLabel")}</a></p>
+        <p>${t.html("adminInvite.expiry", { expiry: formatRelativeTime(t.locale, data.expiresInHours, "hour") })}</p>
+        <p>${t.html("adminInvite.ignore")}</p>
+        <p>${t.html("common.team")}</p>`,
+        sampleData: {
+            organizationName: "Acme Inc.",
+            acceptUrl: "https://tickl-dashboard.web.app/accept-invite?invite=sample&token=sample",
+            expiresInHours: 72,
+        },
+    }),
+    organizationRejected: defineEmailTemplate<{ organizationName: string; reason: string | null }>({
+        fromName: "Tickl Admin",
+        subject: (data, t) => t.text("organizationRejected.subject", { organization: data.organizationName }),
+        title: (_data, t) => t.text("organizationRejected.title"),
+        body: (data, t) => html`
+        <p>${t.html("common.greeting")}</p>
+        <p>${t.html("organizationRejected.rejected", { organization: html`<strong>${data.organizationName}</strong>` })}</p>
+        ${data.reason && html`<p>${t.html("organizationStatus.reason", { reason: data.reason })}</p>`}
+        <p>${t.html("organizationStatus.contact")}</p>
+        <p>${t.html("common.team")}</p>`,
+        sampleData: { organizationName: "Acme Inc.", reason: "We couldn't verify that acme.com belongs to your organization." },
+    }),
+    organizationSuspended: defineEmailTemplate<{ organizationName: string; reason: string | null }>({
+        fromName: "Tickl Admin",
+        subject: (data, t) => t.text("organizationSuspended.subject", { organization: data.organizationName }),
+        title: (_data, t) => t.text("organizationSuspended.title"),
+        body: (data, t) => html`
+        <p>${t.html("common.greeting")}</p>
+        <p>${t.html("organizationSuspended.suspended", { organization: html`<strong>${data.organizationName}</strong>` })}</p>
+        ${data.reason && html`<p>${t.html("organizationStatus.reason", { reason: data.reason })}</p>`}
+        <p>${t.html("organizationStatus.contact")}</p>
+        <p>${t.html("common.team")}</p>`,
+        sampleData: { organizationName: "Acme Inc.", reason: "Repeated reports of abusive messages." },
+    }),
+    newMessage: defineEmailTemplate<{ snippet: string; inboxUrl: string; unsubscribeUrl: string }>({
+        fromName: "Tickl",
+        subject: (_data, t) => t.text("newMessage.subject"),
+        title: (_data, t) => t.text("newMessage.title"),
+        body: (data, t) => html`
+        <p>${t.html("common.greeting")}</p>
+        <p>${t.html("newMessage.received")}</p>
+        <blockquote style="border-left: 3px solid #e5e7eb; margin: 20px 0; padding: 5px 15px; color: #4b5563;">${data.snippet}</blockquote>
+        <p><a href="${data.inboxUrl}" style="color: #3b82f6;">${t.text("notifications.openInbox")}</a></p>
+        <p>${t.html("common.team")}</p>
+        <p style="font-size: 12px; color: #6b7280;">${t.html("notifications.unsubscribe", {
+            link: html`<a href="${data.unsubscribeUrl}">${t.text("notifications.unsubscribeLabel")}</a>`,
+        })}</p>`,
+        sampleData: {
+            snippet: "Thanks for the great presentation today!",
+            inboxUrl: "https://tickl-5c52c.web.app/inbox",
+            unsubscribeUrl: "https://example.com/unsubscribeNotifications?uid=sample&sig=sample",
+        },
+    }),
+    messageDigest: defineEmailTemplate<{
+        period: "daily" | "weekly";
+        count: number;
+        snippets: string[];
+        inboxUrl: string;
+        unsubscribeUrl: string;
+    }>({
+        fromName: "Tickl",
+        subject: (data, t) => t.text(data.period === "weekly" ? "messageDigest.weeklySubject" : "messageDigest.dailySubject", { count: data.count }),
+        title: (_data, t) => t.text("messageDigest.title"),
+        body: (data, t) => html`
+        <p>${t.html("common.greeting")}</p>
+        <p>${t.html(data.period === "weekly" ? "messageDigest.weeklySummary" : "messageDigest.dailySummary", {
+            count: html`<strong>${data.count}</strong>`,
+        })}</p>
+        <p>${t.html("messageDigest.latest")}</p>
+        ${data.snippets.map((snippet) => html`<blockquote style="border-left: 3px solid #e5e7eb; margin: 10px 0; padding: 5px 15px; color: #4b5563;">${snippet}</blockquote>`)}
+        <p><a href="${data.inboxUrl}" style="color: #3b82f6;">${t.text("notifications.openInbox")}</a></p>
+        <p>${t.html("common.team")}</p>
+        <p style="font-size: 12px; color: #6b7280;">${t.html("notifications.unsubscribe", {
+            link: html`<a href="${data.unsubscribeUrl}">${t.text("notifications.unsubscribeLabel")}</a>`,
+        })}</p>`,
+        sampleData: {
+            period: "daily",
+            count: 3,
+            snippets: ["Thanks for the great presentation today!", "Could we have more team lunches?"],
+            inboxUrl: "https://tickl-5c52c.web.app/inbox",
+            unsubscribeUrl: "https://example.com/unsubscribeNotifications?uid=sample&sig=sample",
+        },
+    }),
+};
+
+type EmailTemplateName = keyof typeof emailTemplates;
+type EmailTemplateData<K extends EmailTemplateName> = typeof emailTemplates[K]["sampleData"];
+
+/**
+ * Render a registered template into a complete message for the given recipient and locale
+ */
+const renderEmail = <K extends EmailTemplateName>(
+    name: K,
+    to: string,
+    data: EmailTemplateData<K>,
+    locale: string = DEFAULT_LOCALE
+): MailMessage => {
+    const template = emailTemplates[name] as EmailTemplate<EmailTemplateData<K>>;
+    const t = createTranslator(resolveLocale(locale));
+    const markup = emailLayout(t.locale, template.title(data, t), template.body(data, t)).value;
+    return {
+        from: `${template.fromName} <${MAIL_FROM_ADDRESS}>`,
+        to,
+        subject: template.subject(data, t),
+        html: markup,
+        text: htmlToText(markup),
+    };
+};
+
+// Email verification throttling settings
+const OTP_RESEND_COOLDOWN_SECONDS = getNumberConfig("OTP_RESEND_COOLDOWN_SECONDS", 60);
+const OTP_MAX_SENDS_PER_HOUR = getNumberConfig("OTP_MAX_SENDS_PER_HOUR", 5);
+const OTP_MAX_ATTEMPTS = getNumberConfig("OTP_MAX_ATTEMPTS", 5);
+
+// Verification code lifetime
+const OTP_TTL_MINUTES = getNumberConfig("OTP_TTL_MINUTES", 15);
+
+// Throttle state kept per user and per target email in emailVerificationThrottles
+interface SendThrottle {
+    lastSentAt?: admin.firestore.Timestamp;
+    windowStartedAt?: admin.firestore.Timestamp;
+    windowCount?: number;
 }
 
-interface ApproveOrgData {
-    organizationId: string;
-    approved: boolean;
+/**
+ * Build a resource-exhausted error the app can use to show a countdown
+ */
+const rateLimitError = (reason: string, message: string, retryAfterMs: number) => {
+    return new functions.https.HttpsError("resource-exhausted", message, {
+        reason,
+        retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+    });
+};
+
+/**
+ * Milliseconds until another verification email may be sent, or 0 if allowed now
+ */
+const getSendRetryAfter = (throttle: SendThrottle | undefined, nowMs: number): number => {
+    if (!throttle) {
+        return 0;
+    }
+
+    const cooldownEndsAt = (throttle.lastSentAt?.toMillis() ?? 0) + OTP_RESEND_COOLDOWN_SECONDS * 1000;
+    if (cooldownEndsAt > nowMs) {
+        return cooldownEndsAt - nowMs;
+    }
+
+    const windowEndsAt = (throttle.windowStartedAt?.toMillis() ?? 0) + 60 * 60 * 1000;
+    if (windowEndsAt > nowMs && (throttle.windowCount ?? 0) >= OTP_MAX_SENDS_PER_HOUR) {
+        return windowEndsAt - nowMs;
+    }
+
+    return 0;
+};
+
+/**
+ * Record a verification send against a throttle, starting a new hourly window when needed
+ */
+const nextSendThrottle = (throttle: SendThrottle | undefined, now: admin.firestore.Timestamp): SendThrottle => {
+    const windowStartedAt = throttle?.windowStartedAt;
+    if (!windowStartedAt || windowStartedAt.toMillis() + 60 * 60 * 1000 <= now.toMillis()) {
+        return { lastSentAt: now, windowStartedAt: now, windowCount: 1 };
+    }
+    return { lastSentAt: now, windowStartedAt, windowCount: (throttle?.windowCount ?? 0) + 1 };
+};
+
+/**
+ * Reserve a verification email send for both the requesting user and the target address
+ * Runs inside the caller's transaction, so the send only counts if the email is queued with it;
+ * throws resource-exhausted while either is still cooling down
+ */
+const reserveVerificationSend = async (
+    transaction: admin.firestore.Transaction,
+    userId: string,
+    email: string
+): Promise<void> => {
+    const db = admin.firestore();
+    const emailKey = crypto.createHash("sha256").update(email.toLowerCase()).digest("hex");
+    const userRef = db.collection("emailVerificationThrottles").doc(`user_${userId}`);
+    const emailRef = db.collection("emailVerificationThrottles").doc(`email_${emailKey}`);
+
+    const [userThrottleDoc, emailThrottleDoc] = await transaction.getAll(userRef, emailRef);
+    const userThrottle = userThrottleDoc.data() as SendThrottle | undefined;
+    const emailThrottle = emailThrottleDoc.data() as SendThrottle | undefined;
+    const now = admin.firestore.Timestamp.now();
+
+    const userRetryAfter = getSendRetryAfter(userThrottle, now.toMillis());
+    if (userRetryAfter > 0) {
+        throw rateLimitError(
+            "user-cooldown",
+            "Please wait before requesting another verification code",
+            userRetryAfter
+        );
+    }
+
+    const emailRetryAfter = getSendRetryAfter(emailThrottle, now.toMillis());
+    if (emailRetryAfter > 0) {
+        throw rateLimitError(
+            "email-cooldown",
+            "Too many verification codes have been sent to this email. Please try again later.",
+            emailRetryAfter
+        );
+    }
+
+    transaction.set(userRef, nextSendThrottle(userThrottle, now));
+    transaction.set(emailRef, nextSendThrottle(emailThrottle, now));
+};
+
+/**
+ * Milliseconds until the user may request a new verification code
+ */
+const getUserResendRetryAfter = async (userId: string): Promise<number> => {
+    const throttleDoc = await admin.firestore()
+        .collection("emailVerificationThrottles")
+        .doc(`user_${userId}`)
+        .get();
+    return getSendRetryAfter(throttleDoc.data() as SendThrottle | undefined, Date.now());
+};
+
+// Magic link settings
+const MAGIC_LINK_SECRET = getConfig("MAGIC_LINK_SECRET");
+const MAGIC_LINK_BASE_URL = getConfig(
+    "MAGIC_LINK_BASE_URL",
+    `https://us-central1-${process.env.GCLOUD_PROJECT}.cloudfunctions.net/verifyEmailLink`
+);
+const MAGIC_LINK_SUCCESS_URL = getConfig("MAGIC_LINK_SUCCESS_URL", "https://tickl-5c52c.web.app/email-verified");
+const MAGIC_LINK_FAILURE_URL = getConfig("MAGIC_LINK_FAILURE_URL", "https://tickl-5c52c.web.app/email-verification-failed");
+
+/**
+ * Sign a magic link nonce for a user so tampered links are rejected before touching Firestore
+ */
+const signMagicLink = (userId: string, nonce: string): string => {
+    return crypto.createHmac("sha256", MAGIC_LINK_SECRET).update(`${userId}.${nonce}`).digest("hex");
+};
+
+/**
+ * Parse and check the signature of a magic link token ("userId.nonce.signature")
+ */
+const parseMagicLinkToken = (token: string): { userId: string, nonce: string } | null => {
+    const [userId, nonce, signature] = token.split(".");
+    if (!MAGIC_LINK_SECRET || !userId || !nonce || !signature) {
+        return null;
+    }
+
+    const expected = Buffer.from(signMagicLink(userId, nonce), "hex");
+    const actual = Buffer.from(signature, "hex");
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+        return null;
+    }
+    return { userId, nonce };
+};
+
+/**
+ * Apply a successful email verification to the user's profile
+ */
+const completeEmailVerification = async (userId: string, email: string, organizationId: string): Promise<void> => {
+    await admin.firestore()
+        .collection("users")
+        .doc(userId)
+        .update({
+            companyEmail: email,
+            companyEmailVerified: true,
+            organizationId,
+        });
+
+    logger.info(`Email verified successfully for ${email.split("@")[0]}***`);
+};
+
+// An allowed email domain on an organization, optionally covering its subdomains
+interface OrganizationDomain {
+    domain: string;
+    includeSubdomains?: boolean;
 }
 
-// Interface for anonymous message data
-interface AnonymousMessageData {
-    linkId: string;
-    message: string;
-    senderName: string;
+// Organization fields used for email domain checks
+interface OrganizationEmailPolicy {
+    name: string;
+    locale?: string;
+    domain?: string;
+    domains?: OrganizationDomain[];
+    deniedEmails?: string[];
 }
 
-// Simple test function with proper service account
-export const helloWorld = functions.https.onRequest({
-    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
-}, (request, response) => {
-    logger.info("Hello logs!", { structuredData: true });
-    response.send("Hello from Firebase!");
+// Shape of an email domain such as "acme.co.uk"
+const DOMAIN_REGEX = /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+/**
+ * Collect an organization's allowed domains, including the legacy single domain field
+ */
+const getAllowedDomains = (organization: OrganizationEmailPolicy): OrganizationDomain[] => {
+    const domains = (organization.domains || []).map((entry) => ({
+        domain: entry.domain.toLowerCase(),
+        includeSubdomains: entry.includeSubdomains === true,
+    }));
+    if (organization.domain && !domains.some((entry) => entry.domain === organization.domain?.toLowerCase())) {
+        domains.push({ domain: organization.domain.toLowerCase(), includeSubdomains: false });
+    }
+    return domains;
+};
+
+/**
+ * Check an email domain against the allowed domains
+ */
+const isAllowedDomain = (emailDomain: string, allowed: OrganizationDomain[]): boolean => {
+    return allowed.some((entry) => emailDomain === entry.domain ||
+        (entry.includeSubdomains === true && emailDomain.endsWith(`.${entry.domain}`)));
+};
+
+/**
+ * Check an email against the denylist; entries are full addresses or bare local parts (e.g. "info")
+ */
+const isDeniedEmail = (email: string, deniedEmails: string[] = []): boolean => {
+    const normalized = email.toLowerCase();
+    const localPart = normalized.split("@")[0];
+    return deniedEmails.some((entry) => {
+        const denied = entry.toLowerCase();
+        return denied.includes("@") ? denied === normalized : denied === localPart;
+    });
+};
+
+/**
+ * Describe the allowed domains for error messages, e.g. "acme.com, *.acme.com"
+ */
+const describeAllowedDomains = (allowed: OrganizationDomain[]): string => {
+    return allowed
+        .map((entry) => entry.includeSubdomains ? `${entry.domain}, *.${entry.domain}` : entry.domain)
+        .join(", ");
+};
+
+// Outbound email queue settings
+const EMAIL_MAX_ATTEMPTS = getNumberConfig("EMAIL_MAX_ATTEMPTS", 5);
+const EMAIL_RETRY_BASE_SECONDS = getNumberConfig("EMAIL_RETRY_BASE_SECONDS", 30);
+const EMAIL_RETRY_MAX_SECONDS = getNumberConfig("EMAIL_RETRY_MAX_SECONDS", 60 * 60);
+const EMAIL_SEND_LEASE_SECONDS = 5 * 60;
+const OUTBOX_RETENTION_DAYS = getNumberConfig("OUTBOX_RETENTION_DAYS", 30);
+
+// Delivery status of an emailOutbox document; "failed" is the dead-letter state
+type OutboxStatus = "queued" | "sending" | "sent" | "failed";
+
+// An email body sealed with AES-256-GCM under OUTBOX_ENCRYPTION_KEY
+interface SealedEmailBody {
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+// A message as stored in the outbox: the body is sealed, and cleared once sent
+// Dead letters keep their sealed body so they can be retried until purgeEmailOutbox deletes them
+// Documents queued before bodies were sealed still carry plaintext html/text
+type StoredMailMessage = Omit<MailMessage, "html" | "text"> & {
+    body?: SealedEmailBody | null;
+    html?: string;
+    text?: string;
+};
+
+// An emailOutbox document; nextAttemptAt is cleared once it is sent or dead-lettered
+interface OutboxEmail {
+    message: StoredMailMessage;
+    template: string;
+    status: OutboxStatus;
+    attempts: number;
+    lastError: string | null;
+    requestedBy: string | null;
+    organizationId: string | null;
+    nextAttemptAt: admin.firestore.Timestamp | null;
+    leaseExpiresAt?: admin.firestore.Timestamp | null;
+    sentAt?: admin.firestore.Timestamp | null;
+}
+
+/**
+ * Key for sealing outbox bodies, derived from OUTBOX_ENCRYPTION_KEY
+ */
+const getOutboxKey = (): Buffer => {
+    return crypto.createHash("sha256").update(requireSecret("OUTBOX_ENCRYPTION_KEY")).digest();
+};
+
+/**
+ * Encrypt an email body so codes, tokens and passwords are never stored in plaintext
+ */
+const sealEmailBody = (body: { html: string, text?: string }): SealedEmailBody => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", getOutboxKey(), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(body), "utf8"), cipher.final()]);
+    return {
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        data: data.toString("base64"),
+    };
+};
+
+/**
+ * Rebuild the sendable message from an outbox document, decrypting its body
+ */
+const openOutboxMessage = (stored: StoredMailMessage): MailMessage => {
+    const { body, html, text, ...envelope } = stored;
+    if (!body) {
+        if (!html) {
+            throw new Error("Email body is no longer available");
+        }
+        return { ...envelope, html, text };
+    }
+
+    const decipher = crypto.createDecipheriv("aes-256-gcm", getOutboxKey(), Buffer.from(body.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(body.tag, "base64"));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(body.data, "base64")), decipher.final()]).toString("utf8");
+    return { ...envelope, ...(JSON.parse(plaintext) as { html: string, text?: string }) };
+};
+
+/**
+ * Build a new emailOutbox document for a message
+ * Only the envelope is stored in the clear; the body is sealed until delivery
+ */
+const newOutboxEmail = (
+    template: EmailTemplateName,
+    message: MailMessage,
+    context: { requestedBy?: string | null, organizationId?: string | null }
+) => {
+    const { html, text, ...envelope } = message;
+    const storedMessage: StoredMailMessage = { ...envelope, body: sealEmailBody({ html, text }) };
+    return {
+        message: storedMessage,
+        template,
+        status: "queued",
+        attempts: 0,
+        lastError: null,
+        requestedBy: context.requestedBy ?? null,
+        organizationId: context.organizationId ?? null,
+        nextAttemptAt: admin.firestore.Timestamp.now(),
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+};
+
+/**
+ * Queue an email in the emailOutbox collection; the outbox trigger delivers it
+ */
+const enqueueEmail = async (
+    template: EmailTemplateName,
+    message: MailMessage,
+    context: { requestedBy?: string | null, organizationId?: string | null, emailId?: string } = {}
+): Promise<string> => {
+    // Callers may reserve the ID up front when it must be recorded before the email is queued
+    const outboxCollection = admin.firestore().collection("emailOutbox");
+    const outboxRef = context.emailId ? outboxCollection.doc(context.emailId) : outboxCollection.doc();
+    await outboxRef.create(newOutboxEmail(template, message, context));
+    logger.info("Email queued", { emailId: outboxRef.id, template });
+    return outboxRef.id;
+};
+
+/**
+ * Delay before the next delivery attempt: exponential backoff capped at EMAIL_RETRY_MAX_SECONDS
+ */
+const getEmailRetryDelayMs = (attempts: number): number => {
+    return Math.min(EMAIL_RETRY_BASE_SECONDS * 2 ** (attempts - 1), EMAIL_RETRY_MAX_SECONDS) * 1000;
+};
+
+/**
+ * Claim a queued email and try to deliver it, rescheduling or dead-lettering on failure
+ */
+const deliverOutboxEmail = async (outboxRef: admin.firestore.DocumentReference): Promise<void> => {
+    // Claim the email with a lease so the trigger and the retry job never send it twice
+    const claimed = await admin.firestore().runTransaction(async (transaction) => {
+        const outboxDoc = await transaction.get(outboxRef);
+        const outbox = outboxDoc.data() as OutboxEmail | undefined;
+        const now = admin.firestore.Timestamp.now();
+
+        const leaseExpired = outbox?.status === "sending" &&
+            (outbox.leaseExpiresAt?.toMillis() ?? 0) <= now.toMillis();
+        if (!outbox || (outbox.status !== "queued" && !leaseExpired) ||
+            !outbox.nextAttemptAt || outbox.nextAttemptAt.toMillis() > now.toMillis()) {
+            return null;
+        }
+
+        transaction.update(outboxRef, {
+            status: "sending",
+            attempts: outbox.attempts + 1,
+            leaseExpiresAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + EMAIL_SEND_LEASE_SECONDS * 1000),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return { ...outbox, attempts: outbox.attempts + 1 };
+    });
+
+    if (!claimed) {
+        return;
+    }
+
+    try {
+        await mailProvider.send(openOutboxMessage(claimed.message));
+        // Drop the body once delivered so codes and credentials don't linger in the outbox
+        await outboxRef.update({
+            "status": "sent",
+            "message.body": null,
+            "message.html": admin.firestore.FieldValue.delete(),
+            "message.text": admin.firestore.FieldValue.delete(),
+            "sentAt": admin.firestore.FieldValue.serverTimestamp(),
+            "leaseExpiresAt": null,
+            "nextAttemptAt": null,
+            "lastError": null,
+            "updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+        });
+        logger.info("Queued email sent", { emailId: outboxRef.id, attempts: claimed.attempts });
+    } catch (error) {
+        const lastError = error instanceof Error ? error.message : String(error);
+        const deadLettered = claimed.attempts >= EMAIL_MAX_ATTEMPTS;
+
+        await outboxRef.update({
+            status: deadLettered ? "failed" : "queued",
+            lastError,
+            leaseExpiresAt: null,
+            nextAttemptAt: deadLettered ?
+                null :
+                admin.firestore.Timestamp.fromMillis(Date.now() + getEmailRetryDelayMs(claimed.attempts)),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        if (deadLettered) {
+            logger.error("Queued email failed permanently", { emailId: outboxRef.id, lastError });
+        } else {
+            logger.warn("Queued email failed, will retry", { emailId: outboxRef.id, attempts: claimed.attempts, lastError });
+        }
+    }
+};
+
+/**
+ * Status fields of an outbox email that are safe to return to callers (never the message body)
+ */
+const toOutboxStatus = (outboxDoc: admin.firestore.DocumentSnapshot) => {
+    const outbox = outboxDoc.data() as OutboxEmail;
+    return {
+        emailId: outboxDoc.id,
+        template: outbox.template,
+        to: outbox.message.to,
+        status: outbox.status,
+        attempts: outbox.attempts,
+        lastError: outbox.lastError,
+        organizationId: outbox.organizationId,
+        nextAttemptAt: outbox.status === "queued" && outbox.nextAttemptAt ? outbox.nextAttemptAt.toMillis() : null,
+        sentAt: outbox.sentAt ? outbox.sentAt.toMillis() : null,
+    };
+};
+
+// Roles stored as Firebase Auth custom claims ({ role, organizationId }) and mirrored in userRoles
+type Role = "superAdmin" | "orgAdmin" | "member";
+// Ordered from most to least privileged
+const ROLES: Role[] = ["superAdmin", "orgAdmin", "member"];
+
+type CallerAuth = CallableRequest["auth"];
+
+/**
+ * Guard: the caller must be signed in
+ */
+const requireAuth = (auth: CallerAuth, message: string = "Authentication required"): NonNullable<CallerAuth> => {
+    if (!auth) {
+        throw new functions.https.HttpsError("unauthenticated", message);
+    }
+    return auth;
+};
+
+/**
+ * Check whether the caller holds the superAdmin claim
+ */
+const isSuperAdmin = (auth: CallerAuth): boolean => {
+    return auth?.token?.role === "superAdmin";
+};
+
+/**
+ * Check whether the caller administers an organization (any organization when organizationId is null)
+ * Super admins administer every organization
+ */
+const isOrgAdmin = (auth: CallerAuth, organizationId: string | null): boolean => {
+    if (isSuperAdmin(auth)) {
+        return true;
+    }
+    return auth?.token?.role === "orgAdmin" &&
+        (organizationId === null || auth.token.organizationId === organizationId);
+};
+
+/**
+ * Guard: the caller must be a super admin
+ */
+const requireSuperAdmin = (auth: CallerAuth, message: string): NonNullable<CallerAuth> => {
+    const caller = requireAuth(auth);
+    if (!isSuperAdmin(caller)) {
+        throw new functions.https.HttpsError("permission-denied", message);
+    }
+    return caller;
+};
+
+/**
+ * Guard: the caller must be a super admin or an admin of the organization
+ */
+const requireOrgAdmin = (auth: CallerAuth, organizationId: string | null, message: string): NonNullable<CallerAuth> => {
+    const caller = requireAuth(auth);
+    if (!isOrgAdmin(caller, organizationId)) {
+        throw new functions.https.HttpsError("permission-denied", message);
+    }
+    return caller;
+};
+
+// An auditLogs entry describing one privileged action
+interface AuditEntry {
+    action: string;
+    targetType: string;
+    targetId: string | null;
+    organizationId?: string | null;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+    // Overrides the caller as actor, e.g. for unauthenticated invite acceptance
+    actor?: { uid: string | null, email: string | null };
+}
+
+/**
+ * Top-level fields that differ between two snapshots of a record
+ */
+const diffFields = (
+    before: Record<string, unknown> | null | undefined,
+    after: Record<string, unknown> | null | undefined
+): Record<string, { before: unknown, after: unknown }> => {
+    const diff: Record<string, { before: unknown, after: unknown }> = {};
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    for (const key of keys) {
+        const previous = before?.[key] ?? null;
+        const next = after?.[key] ?? null;
+        if (JSON.stringify(previous) !== JSON.stringify(next)) {
+            diff[key] = { before: previous, after: next };
+        }
+    }
+    return diff;
+};
+
+/**
+ * Append an entry to auditLogs; entries are only ever added, never updated or deleted
+ * Failures are logged rather than thrown so they never undo an action that already happened
+ */
+const writeAuditLog = async (request: CallableRequest<unknown>, entry: AuditEntry): Promise<void> => {
+    try {
+        const userAgent = request.rawRequest?.headers?.["user-agent"];
+        await admin.firestore().collection("auditLogs").add({
+            actorUid: entry.actor ? entry.actor.uid : request.auth?.uid ?? null,
+            actorEmail: entry.actor ? entry.actor.email : request.auth?.token?.email ?? null,
+            actorRole: entry.actor ? null : request.auth?.token?.role ?? null,
+            action: entry.action,
+            targetType: entry.targetType,
+            targetId: entry.targetId,
+            organizationId: entry.organizationId ?? null,
+            before: entry.before ?? null,
+            after: entry.after ?? null,
+            changes: diffFields(entry.before, entry.after),
+            metadata: {
+                ip: request.rawRequest?.ip || null,
+                userAgent: typeof userAgent === "string" ? userAgent : null,
+            },
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+    } catch (error) {
+        logger.error("Failed to write audit log", { action: entry.action, targetId: entry.targetId, error });
+    }
+};
+
+/**
+ * Fields of an audit log entry that are safe to return to callers
+ * Request metadata (IP address and user agent) is personal data, so only super admins see it
+ */
+const toAuditLogEntry = (logDoc: admin.firestore.DocumentSnapshot, includeMetadata: boolean) => {
+    const entry = logDoc.data() || {};
+    return {
+        id: logDoc.id,
+        actorUid: entry.actorUid ?? null,
+        actorEmail: entry.actorEmail ?? null,
+        actorRole: entry.actorRole ?? null,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        organizationId: entry.organizationId ?? null,
+        before: entry.before ?? null,
+        after: entry.after ?? null,
+        changes: entry.changes ?? {},
+        ...(includeMetadata ? { metadata: entry.metadata ?? null } : {}),
+        createdAt: entry.createdAt ? entry.createdAt.toMillis() : null,
+    };
+};
+
+/**
+ * Find the target user of a role change by uid or email
+ */
+const getRoleTarget = async (target: { uid?: string, email?: string }): Promise<admin.auth.UserRecord> => {
+    if (!target.uid && !target.email) {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            "A user ID or email is required"
+        );
+    }
+
+    try {
+        return target.uid ?
+            await admin.auth().getUser(target.uid) :
+            await admin.auth().getUserByEmail(target.email as string);
+    } catch (error: any) {
+        if (error.code === "auth/user-not-found") {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "User not found"
+            );
+        }
+        throw error;
+    }
+};
+
+/**
+ * Copy a role assignment onto the user's custom claims and mark the userRoles record as synced
+ * userRoles records left with claimsSynced false are picked up by repairRoleClaims
+ */
+const applyRoleClaims = async (uid: string, role: Role, organizationId: string | null): Promise<void> => {
+    const userRecord = await admin.auth().getUser(uid);
+
+    // Keep any unrelated claims the user already has
+    const claims: Record<string, unknown> = { ...(userRecord.customClaims || {}), role };
+    if (organizationId) {
+        claims.organizationId = organizationId;
+    } else {
+        delete claims.organizationId;
+    }
+    await admin.auth().setCustomUserClaims(uid, claims);
+
+    await admin.firestore().collection("userRoles").doc(uid).update({
+        claimsSynced: true,
+        claimsSyncedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+};
+
+/**
+ * Assign a role to a user, updating userRoles and their custom claims
+ * Refuses to demote the last remaining super admin; returns the previous assignment
+ */
+const setUserRole = async (
+    uid: string,
+    role: Role,
+    organizationId: string | null,
+    actorUid: string | null
+): Promise<{ role: Role, organizationId: string | null }> => {
+    const db = admin.firestore();
+    const roleRef = db.collection("userRoles").doc(uid);
+    const userRecord = await admin.auth().getUser(uid);
+
+    const previous = await db.runTransaction(async (transaction) => {
+        const currentRole = await transaction.get(roleRef);
+
+        if (currentRole.data()?.role === "superAdmin" && role !== "superAdmin") {
+            const superAdmins = await transaction.get(
+                db.collection("userRoles").where("role", "==", "superAdmin").limit(2)
+            );
+            if (superAdmins.size <= 1) {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "Cannot remove the last super administrator"
+                );
+            }
+        }
+
+        transaction.set(roleRef, {
+            role,
+            organizationId,
+            email: userRecord.email || null,
+            claimsSynced: false,
+            updatedBy: actorUid,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return {
+            role: (currentRole.data()?.role as Role | undefined) ?? "member",
+            organizationId: (currentRole.data()?.organizationId as string | null | undefined) ?? null,
+        };
+    });
+
+    await applyRoleClaims(uid, role, organizationId);
+
+    // Existing ID tokens still carry the old claims, so force a refresh whenever privileges shrink
+    const demoted = ROLES.indexOf(role) > ROLES.indexOf(previous.role) ||
+        (previous.role === "orgAdmin" && role === "orgAdmin" && previous.organizationId !== organizationId);
+    if (demoted) {
+        await admin.auth().revokeRefreshTokens(uid);
+    }
+
+    logger.info("User role updated", { uid, role, organizationId, actorUid, demoted });
+    return previous;
+};
+
+/**
+ * Check whether the caller may manage an organization's admins: super admins and the current owner
+ */
+const canManageOrgAdmins = (auth: NonNullable<CallerAuth>, orgData: admin.firestore.DocumentData): boolean => {
+    return isSuperAdmin(auth) || (!!orgData.ownerUid && orgData.ownerUid === auth.uid);
+};
+
+/**
+ * Load an organization for admin management, enforcing that the caller is a super admin or its owner
+ */
+const getManagedOrganization = async (
+    auth: NonNullable<CallerAuth>,
+    organizationId: string | undefined,
+    transaction?: admin.firestore.Transaction
+): Promise<{ ref: admin.firestore.DocumentReference, data: admin.firestore.DocumentData }> => {
+    if (!organizationId) {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            "Missing organization ID"
+        );
+    }
+
+    const orgRef = admin.firestore().collection("organizations").doc(organizationId);
+    const orgDoc = transaction ? await transaction.get(orgRef) : await orgRef.get();
+
+    if (!orgDoc.exists) {
+        throw new functions.https.HttpsError(
+            "not-found",
+            "Organization not found"
+        );
+    }
+
+    const orgData = orgDoc.data() || {};
+    if (!canManageOrgAdmins(auth, orgData)) {
+        throw new functions.https.HttpsError(
+            "permission-denied",
+            "Only super administrators or the organization owner can manage its admins"
+        );
+    }
+
+    return { ref: orgRef, data: orgData };
+};
+
+// Organization lifecycle; the allowed next statuses for each status
+type OrganizationStatus = "pending" | "approved" | "rejected" | "suspended" | "archived";
+const ORGANIZATION_TRANSITIONS: Record<OrganizationStatus, OrganizationStatus[]> = {
+    pending: ["approved", "rejected", "archived"],
+    approved: ["suspended", "archived"],
+    rejected: ["pending", "archived"],
+    suspended: ["approved", "archived"],
+    archived: [],
+};
+
+// Statuses that require a reason, which is emailed to the organization's admins
+const STATUSES_REQUIRING_REASON: OrganizationStatus[] = ["rejected", "suspended"];
+
+/**
+ * Current status of an organization, deriving it from the legacy approved flag when unset
+ */
+const getOrganizationStatus = (orgData: admin.firestore.DocumentData): OrganizationStatus => {
+    return orgData.status ?? (orgData.approved ? "approved" : "pending");
+};
+
+/**
+ * Check whether an organization's members can verify emails and receive messages
+ */
+const isOrganizationActive = (orgData: admin.firestore.DocumentData): boolean => {
+    const status = getOrganizationStatus(orgData);
+    return status !== "suspended" && status !== "archived";
+};
+
+/**
+ * Organization a user belongs to
+ * Users verified before users.organizationId was written only have it on their emailVerifications record
+ */
+const getUserOrganizationId = async (
+    uid: string,
+    userData: admin.firestore.DocumentData | undefined
+): Promise<string | null> => {
+    if (userData?.organizationId) {
+        return userData.organizationId as string;
+    }
+    const verificationDoc = await admin.firestore().collection("emailVerifications").doc(uid).get();
+    return (verificationDoc.data()?.organizationId as string | undefined) ?? null;
+};
+
+/**
+ * Guard: the organization must not be suspended or archived
+ */
+const assertOrganizationActive = (orgData: admin.firestore.DocumentData, message: string): void => {
+    if (!isOrganizationActive(orgData)) {
+        throw new functions.https.HttpsError("failed-precondition", message, {
+            organizationStatus: getOrganizationStatus(orgData),
+        });
+    }
+};
+
+/**
+ * Guard: the organization must be approved, e.g. before anyone is made one of its admins
+ */
+const assertOrganizationApproved = (orgData: admin.firestore.DocumentData, message: string): void => {
+    if (getOrganizationStatus(orgData) !== "approved") {
+        throw new functions.https.HttpsError("failed-precondition", message, {
+            organizationStatus: getOrganizationStatus(orgData),
+        });
+    }
+};
+
+/**
+ * Queue a templated email to every admin of an organization and its application contact
+ */
+const notifyOrganizationAdmins = async <K extends "organizationApproved" | "organizationRejected" | "organizationSuspended">(
+    organizationId: string,
+    orgData: admin.firestore.DocumentData,
+    template: K,
+    data: EmailTemplateData<K>,
+    requestedBy: string
+): Promise<string[]> => {
+    const adminsSnapshot = await admin.firestore()
+        .collection("orgAdmins")
+        .where("organizationId", "==", organizationId)
+        .get();
+
+    // Each admin gets the email in their own language, falling back to the organization's
+    const recipients = new Map<string, string>();
+    for (const adminDoc of adminsSnapshot.docs) {
+        const adminUserDoc = await admin.firestore().collection("users").doc(adminDoc.id).get();
+        recipients.set(
+            (adminDoc.data().email as string).toLowerCase(),
+            resolveLocale(adminUserDoc.data()?.locale, orgData.locale)
+        );
+    }
+    if (orgData.contactEmail && !recipients.has(orgData.contactEmail.toLowerCase())) {
+        recipients.set(orgData.contactEmail.toLowerCase(), resolveLocale(orgData.locale));
+    }
+
+    const emailIds: string[] = [];
+    for (const [email, locale] of recipients) {
+        const mailOptions = renderEmail(template, email, data, locale);
+        emailIds.push(await enqueueEmail(template, mailOptions, { requestedBy, organizationId }));
+    }
+    return emailIds;
+};
+
+/**
+ * Move an organization to a new status, enforcing allowed transitions and required reasons,
+ * then notify its admins
+ */
+const transitionOrganizationStatus = async (
+    organizationId: string,
+    nextStatus: OrganizationStatus,
+    reason: string | undefined,
+    actorUid: string,
+    options: { reasonOptional?: boolean } = {}
+): Promise<{ previousStatus: OrganizationStatus, emailIds: string[] }> => {
+    if (!ORGANIZATION_TRANSITIONS[nextStatus]) {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            `Status must be one of: ${Object.keys(ORGANIZATION_TRANSITIONS).join(", ")}`
+        );
+    }
+
+    const trimmedReason = reason?.trim() || null;
+    if (STATUSES_REQUIRING_REASON.includes(nextStatus) && !trimmedReason && !options.reasonOptional) {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            `A reason is required to mark an organization as ${nextStatus}`
+        );
+    }
+
+    const orgRef = admin.firestore().collection("organizations").doc(organizationId);
+    const { previousStatus, orgData } = await admin.firestore().runTransaction(async (transaction) => {
+        const orgDoc = await transaction.get(orgRef);
+
+        if (!orgDoc.exists) {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "Organization not found"
+            );
+        }
+
+        const data = orgDoc.data() || {};
+        const currentStatus = getOrganizationStatus(data);
+        if (!ORGANIZATION_TRANSITIONS[currentStatus].includes(nextStatus)) {
+            throw new functions.https.HttpsError(
+                "failed-precondition",
+                `Cannot change an organization from ${currentStatus} to ${nextStatus}`,
+                { currentStatus, allowed: ORGANIZATION_TRANSITIONS[currentStatus] }
+            );
+        }
+
+        transaction.update(orgRef, {
+            status: nextStatus,
+            // Kept in sync for clients that still read the boolean
+            approved: nextStatus === "approved",
+            statusReason: trimmedReason,
+            statusUpdatedBy: actorUid,
+            statusUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            statusHistory: admin.firestore.FieldValue.arrayUnion({
+                from: currentStatus,
+                to: nextStatus,
+                reason: trimmedReason,
+                by: actorUid,
+                at: admin.firestore.Timestamp.now(),
+            }),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+        return { previousStatus: currentStatus, orgData: data };
+    });
+
+    logger.info("Organization status changed", { organizationId, previousStatus, status: nextStatus });
+
+    // The status change is already committed, so a notification failure is logged rather than returned
+    let emailIds: string[] = [];
+    try {
+        if (nextStatus === "approved") {
+            emailIds = await notifyOrganizationAdmins(organizationId, orgData, "organizationApproved", {
+                organizationName: orgData.name,
+            }, actorUid);
+        } else if (nextStatus === "rejected" || nextStatus === "suspended") {
+            const template = nextStatus === "rejected" ? "organizationRejected" : "organizationSuspended";
+            emailIds = await notifyOrganizationAdmins(organizationId, orgData, template, {
+                organizationName: orgData.name,
+                reason: trimmedReason,
+            }, actorUid);
+        }
+    } catch (emailError) {
+        logger.error("Failed to queue organization status emails, but the status was changed:", {
+            organizationId,
+            status: nextStatus,
+            error: emailError,
+        });
+    }
+
+    return { previousStatus, emailIds };
+};
+
+/**
+ * Compensate for a failed org admin creation: remove the records and claim, then delete the Auth user
+ * An existing account that was being linked is kept and goes back to being a member
+ */
+const rollbackOrgAdminCreation = async (
+    uid: string,
+    organizationId: string,
+    options: { keepAccount?: boolean } = {}
+): Promise<void> => {
+    logger.warn("Rolling back partially created org admin", { uid, organizationId, keepAccount: !!options.keepAccount });
+    const db = admin.firestore();
+    const steps: Array<[string, () => Promise<unknown>]> = [
+        ["orgAdmins", () => db.collection("orgAdmins").doc(uid).delete()],
+        ["organization", () => db.runTransaction(async (transaction) => {
+            const orgRef = db.collection("organizations").doc(organizationId);
+            const orgDoc = await transaction.get(orgRef);
+            transaction.update(orgRef, {
+                adminUsers: admin.firestore.FieldValue.arrayRemove(uid),
+                // An admin that never finished being created can't stay the owner
+                ...(orgDoc.data()?.ownerUid === uid ? { ownerUid: null } : {}),
+                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+        })],
+    ];
+    if (options.keepAccount) {
+        steps.push(["role", () => setUserRole(uid, "member", null, null)]);
+    } else {
+        steps.push(
+            ["userRoles", () => db.collection("userRoles").doc(uid).delete()],
+            ["authUser", () => admin.auth().deleteUser(uid)]
+        );
+    }
+
+    // Run every step even if an earlier one fails, so as much as possible is undone
+    for (const [step, undo] of steps) {
+        try {
+            await undo();
+        } catch (error) {
+            logger.error("Rollback step failed", { uid, step, error });
+        }
+    }
+};
+
+// How long idempotency records are kept, and how long an in-progress request blocks retries
+const IDEMPOTENCY_TTL_HOURS = 24;
+const IDEMPOTENCY_LEASE_SECONDS = 120;
+
+/**
+ * Claim an idempotency key for a caller's request
+ * Returns the stored result when the request already completed, otherwise a ref to complete or release
+ */
+const beginIdempotentRequest = async (
+    scope: string,
+    callerUid: string,
+    idempotencyKey: string,
+    params: Record<string, unknown>
+): Promise<{ replay: Record<string, unknown> | null, ref: admin.firestore.DocumentReference }> => {
+    const db = admin.firestore();
+    const keyHash = crypto.createHash("sha256").update(`${scope}:${callerUid}:${idempotencyKey}`).digest("hex");
+    const paramsHash = crypto.createHash("sha256").update(JSON.stringify(params)).digest("hex");
+    const ref = db.collection("idempotencyKeys").doc(keyHash);
+
+    const replay = await db.runTransaction(async (transaction) => {
+        const keyDoc = await transaction.get(ref);
+        const record = keyDoc.data();
+        const now = Date.now();
+
+        if (record && record.expiresAt.toMillis() > now) {
+            if (record.paramsHash !== paramsHash) {
+                throw new functions.https.HttpsError(
+                    "invalid-argument",
+                    "This idempotency key was already used with different parameters"
+                );
+            }
+            if (record.status === "completed") {
+                return record.result as Record<string, unknown>;
+            }
+            if (record.leaseExpiresAt.toMillis() > now) {
+                throw new functions.https.HttpsError(
+                    "aborted",
+                    "A request with this idempotency key is already in progress"
+                );
+            }
+        }
+
+        transaction.set(ref, {
+            scope,
+            callerUid,
+            paramsHash,
+            status: "in-progress",
+            result: null,
+            leaseExpiresAt: admin.firestore.Timestamp.fromMillis(now + IDEMPOTENCY_LEASE_SECONDS * 1000),
+            expiresAt: admin.firestore.Timestamp.fromMillis(now + IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000),
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return null;
+    });
+
+    return { replay, ref };
+};
+
+/**
+ * Store the result of a completed idempotent request so retries replay it
+ */
+const completeIdempotentRequest = async (
+    ref: admin.firestore.DocumentReference | null,
+    result: Record<string, unknown>
+): Promise<void> => {
+    if (!ref) {
+        return;
+    }
+    await ref.update({
+        status: "completed",
+        result,
+        completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+};
+
+/**
+ * Release an idempotency key after a failed request so it can be retried right away
+ */
+const releaseIdempotentRequest = async (ref: admin.firestore.DocumentReference | null): Promise<void> => {
+    if (!ref) {
+        return;
+    }
+    try {
+        await ref.delete();
+    } catch (error) {
+        logger.error("Failed to release idempotency key", { key: ref.id, error });
+    }
+};
+
+// Admin invitation settings
+const INVITE_TTL_HOURS = getNumberConfig("INVITE_TTL_HOURS", 72);
+const INVITE_ACCEPT_URL = getConfig("INVITE_ACCEPT_URL", `${DASHBOARD_URL}/accept-invite`);
+const MIN_PASSWORD_LENGTH = 8;
+
+// Lifecycle of an adminInvites document; expiry is derived from expiresAt
+type InviteStatus = "pending" | "accepted" | "revoked";
+
+// An adminInvites document; only a hash of the emailed token is stored
+interface AdminInvite {
+    email: string;
+    organizationId: string;
+    organizationName: string;
+    tokenHash: string;
+    status: InviteStatus;
+    expiresAt: admin.firestore.Timestamp;
+    invitedBy: string;
+    locale: string;
+    emailId?: string | null;
+    acceptedUid?: string | null;
+}
+
+/**
+ * SHA-256 of an invite token, as stored on the invite
+ */
+const hashInviteToken = (token: string): string => {
+    return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+/**
+ * Issue a new invite token and expiry; returns the token to email and the fields to store
+ */
+const issueInviteToken = () => {
+    const token = crypto.randomBytes(32).toString("hex");
+    return {
+        token,
+        fields: {
+            tokenHash: hashInviteToken(token),
+            expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + INVITE_TTL_HOURS * 60 * 60 * 1000),
+        },
+    };
+};
+
+/**
+ * Queue the invitation email containing the accept link
+ */
+const sendInviteEmail = async (
+    inviteId: string,
+    invite: Pick<AdminInvite, "email" | "organizationId" | "organizationName" | "locale">,
+    token: string,
+    requestedBy: string
+): Promise<string> => {
+    const acceptUrl = `${INVITE_ACCEPT_URL}?invite=${encodeURIComponent(inviteId)}&token=${encodeURIComponent(token)}`;
+    const mailOptions = renderEmail("adminInvite", invite.email, {
+        organizationName: invite.organizationName,
+        acceptUrl,
+        expiresInHours: INVITE_TTL_HOURS,
+    }, invite.locale);
+    return enqueueEmail("adminInvite", mailOptions, { requestedBy, organizationId: invite.organizationId });
+};
+
+/**
+ * Create a pending invite and queue its email
+ */
+const createAdminInvite = async (
+    invite: Pick<AdminInvite, "email" | "organizationId" | "organizationName" | "locale">,
+    invitedBy: string
+): Promise<{ inviteId: string, emailId: string }> => {
+    const { token, fields } = issueInviteToken();
+    const inviteRef = admin.firestore().collection("adminInvites").doc();
+    const inviteData = {
+        ...invite,
+        email: invite.email.toLowerCase(),
+        status: "pending" as InviteStatus,
+        invitedBy,
+        ...fields,
+    };
+
+    await inviteRef.set({
+        ...inviteData,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    const emailId = await sendInviteEmail(inviteRef.id, inviteData, token, invitedBy);
+    await inviteRef.update({ emailId });
+    logger.info("Admin invite created", { inviteId: inviteRef.id, organizationId: invite.organizationId });
+
+    return { inviteId: inviteRef.id, emailId };
+};
+
+/**
+ * Invite fields that are safe to return to admins (never the token hash)
+ */
+const toInviteSummary = (inviteDoc: admin.firestore.DocumentSnapshot) => {
+    const invite = inviteDoc.data() as AdminInvite;
+    const expired = invite.status === "pending" && invite.expiresAt.toMillis() < Date.now();
+    return {
+        inviteId: inviteDoc.id,
+        email: invite.email,
+        organizationId: invite.organizationId,
+        organizationName: invite.organizationName,
+        status: expired ? "expired" : invite.status,
+        expiresAt: invite.expiresAt.toMillis(),
+        invitedBy: invite.invitedBy,
+        acceptedUid: invite.acceptedUid ?? null,
+    };
+};
+
+// Bulk import limits; rows are provisioned in time-boxed chunks that each hold a lease on the job
+const BULK_IMPORT_MAX_ROWS = 500;
+const BULK_IMPORT_MAX_ADMINS_PER_ROW = 20;
+const BULK_IMPORT_CHUNK_SECONDS = 300;
+const BULK_IMPORT_LEASE_SECONDS = 600;
+const BULK_IMPORT_MAX_RECOVERIES = 3;
+
+// One validated organization to provision from a bulk import
+interface BulkImportRow {
+    organizationName: string;
+    domains: OrganizationDomain[];
+    adminEmails: string[];
+    locale: string;
+}
+
+// Outcome of provisioning one row
+interface BulkImportRowResult {
+    row: number;
+    organizationName: string;
+    status: "created" | "failed";
+    organizationId: string | null;
+    inviteIds: string[];
+    error: string | null;
+}
+
+/**
+ * Split a multi-value cell ("a.com; b.com" or "a.com b.com") into trimmed values
+ */
+const splitListCell = (value: unknown): string[] => {
+    if (Array.isArray(value)) {
+        return value.map((item) => String(item).trim()).filter(Boolean);
+    }
+    return String(value ?? "").split(/[;\s]+/).map((item) => item.trim()).filter(Boolean);
+};
+
+/**
+ * Turn CSV (with a header row) or JSON import content into raw records keyed by column name
+ */
+const readImportRecords = (format: string, content: unknown): Array<Record<string, unknown>> => {
+    if (format === "json") {
+        const parsed = typeof content === "string" ? JSON.parse(content) : content;
+        if (!Array.isArray(parsed)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "JSON content must be an array of rows"
+            );
+        }
+        return parsed.map((record) => (record && typeof record === "object" ? record : {}) as Record<string, unknown>);
+    }
+
+    if (format === "csv") {
+        if (typeof content !== "string") {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "CSV content must be a string"
+            );
+        }
+        const [header, ...rows] = parseCsv(content);
+        const columns = (header || []).map((column) => column.trim());
+        return rows.map((cells) => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""])));
+    }
+
+    throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Format must be csv or json"
+    );
+};
+
+/**
+ * Validate every import record, returning normalized rows and a per-row error report
+ * Rows are numbered from 1 (the first data row)
+ */
+const validateImportRecords = (records: Array<Record<string, unknown>>) => {
+    const rows: BulkImportRow[] = [];
+    const rowNumbers: number[] = [];
+    const errors: Array<{ row: number, errors: string[] }> = [];
+    const seenNames = new Map<string, number>();
+    const seenEmails = new Map<string, number>();
+    const seenDomains = new Map<string, number>();
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+    if (records.length === 0) {
+        errors.push({ row: 0, errors: ["No rows to import"] });
+    }
+    if (records.length > BULK_IMPORT_MAX_ROWS) {
+        errors.push({ row: 0, errors: [`At most ${BULK_IMPORT_MAX_ROWS} rows can be imported at once`] });
+    }
+
+    records.forEach((record, index) => {
+        const rowNumber = index + 1;
+        const rowErrors: string[] = [];
+        const organizationName = String(record.organizationName ?? record.name ?? "").trim();
+
+        if (!organizationName) {
+            rowErrors.push("Organization name is required");
+        } else if (organizationName.length > 100) {
+            rowErrors.push("Organization name is too long");
+        } else if (seenNames.has(organizationName.toLowerCase())) {
+            rowErrors.push(`Duplicate organization name (also on row ${seenNames.get(organizationName.toLowerCase())})`);
+        } else {
+            seenNames.set(organizationName.toLowerCase(), rowNumber);
+        }
+
+        // "*.acme.com" allows acme.com and its subdomains
+        const domains = splitListCell(record.domains).map((value) => {
+            const domain = value.toLowerCase();
+            return domain.startsWith("*.") ?
+                { domain: domain.slice(2), includeSubdomains: true } :
+                { domain, includeSubdomains: false };
+        });
+        if (domains.length === 0) {
+            rowErrors.push("At least one domain is required");
+        }
+        domains.forEach((entry) => {
+            if (!DOMAIN_REGEX.test(entry.domain)) {
+                rowErrors.push(`Invalid domain: ${entry.domain}`);
+            } else if (seenDomains.has(entry.domain) && seenDomains.get(entry.domain) !== rowNumber) {
+                rowErrors.push(`Duplicate domain ${entry.domain} (also on row ${seenDomains.get(entry.domain)})`);
+            } else {
+                seenDomains.set(entry.domain, rowNumber);
+            }
+        });
+
+        const adminEmails = splitListCell(record.adminEmails).map((email) => email.toLowerCase());
+        if (adminEmails.length === 0) {
+            rowErrors.push("At least one admin email is required");
+        }
+        if (adminEmails.length > BULK_IMPORT_MAX_ADMINS_PER_ROW) {
+            rowErrors.push(`At most ${BULK_IMPORT_MAX_ADMINS_PER_ROW} admin emails per organization`);
+        }
+        adminEmails.forEach((email) => {
+            if (!emailRegex.test(email)) {
+                rowErrors.push(`Invalid admin email: ${email}`);
+            } else if (seenEmails.has(email)) {
+                rowErrors.push(`Duplicate admin email ${email} (also on row ${seenEmails.get(email)})`);
+            } else {
+                seenEmails.set(email, rowNumber);
+            }
+        });
+
+        if (rowErrors.length) {
+            errors.push({ row: rowNumber, errors: rowErrors });
+        } else {
+            rows.push({
+                organizationName,
+                domains,
+                adminEmails,
+                locale: resolveLocale(record.locale ? String(record.locale) : null),
+            });
+            rowNumbers.push(rowNumber);
+        }
+    });
+
+    return { rows, rowNumbers, errors };
+};
+
+/**
+ * Split values into groups small enough for a Firestore "in" or "array-contains-any" filter
+ */
+const chunkValues = <T>(values: T[], size: number): T[][] => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < values.length; i += size) {
+        chunks.push(values.slice(i, i + size));
+    }
+    return chunks;
+};
+
+/**
+ * Check import rows against existing data, returning a per-row error report
+ * A row conflicts when an organization already has its name or claims one of its domains
+ * (rejected applications don't count), or when one of its admin emails already belongs to an
+ * administrator or has a pending invite
+ */
+const findImportConflicts = async (
+    rows: Array<{ rowNumber: number, row: BulkImportRow }>
+): Promise<Array<{ row: number, errors: string[] }>> => {
+    const db = admin.firestore();
+    const claimedNames = new Map<string, string>();
+    const claimedDomains = new Map<string, string>();
+    const adminEmails = new Set<string>();
+    const invitedEmails = new Set<string>();
+
+    const recordOrganizations = (snapshot: admin.firestore.QuerySnapshot) => {
+        snapshot.docs.filter((orgDoc) => getOrganizationStatus(orgDoc.data()) !== "rejected").forEach((orgDoc) => {
+            const orgData = orgDoc.data() as OrganizationEmailPolicy;
+            claimedNames.set(String(orgData.name).toLowerCase(), orgDoc.id);
+            getAllowedDomains(orgData).forEach((entry) => claimedDomains.set(entry.domain, orgDoc.id));
+        });
+    };
+
+    const names = [...new Set(rows.map(({ row }) => row.organizationName))];
+    for (const group of chunkValues(names, 30)) {
+        recordOrganizations(await db.collection("organizations").where("name", "in", group).get());
+    }
+
+    // Domains are stored as { domain, includeSubdomains } entries, or in the legacy domain field
+    const domains = [...new Set(rows.flatMap(({ row }) => row.domains.map((entry) => entry.domain)))];
+    for (const group of chunkValues(domains, 15)) {
+        const entries = group.flatMap((domain) => [
+            { domain, includeSubdomains: false },
+            { domain, includeSubdomains: true },
+        ]);
+        recordOrganizations(await db.collection("organizations").where("domains", "array-contains-any", entries).get());
+    }
+    for (const group of chunkValues(domains, 30)) {
+        recordOrganizations(await db.collection("organizations").where("domain", "in", group).get());
+    }
+
+    const emails = [...new Set(rows.flatMap(({ row }) => row.adminEmails))];
+    for (const group of chunkValues(emails, 100)) {
+        const { users } = await admin.auth().getUsers(group.map((email) => ({ email })));
+        users.filter((user) => user.customClaims?.role === "orgAdmin" || user.customClaims?.role === "superAdmin")
+            .forEach((user) => adminEmails.add((user.email || "").toLowerCase()));
+    }
+    for (const group of chunkValues(emails, 30)) {
+        const invitesSnapshot = await db.collection("adminInvites")
+            .where("email", "in", group)
+            .where("status", "==", "pending")
+            .get();
+        invitesSnapshot.docs.forEach((inviteDoc) => invitedEmails.add(inviteDoc.data().email));
+    }
+
+    const conflicts: Array<{ row: number, errors: string[] }> = [];
+    for (const { rowNumber, row } of rows) {
+        const rowErrors: string[] = [];
+        if (claimedNames.has(row.organizationName.toLowerCase())) {
+            rowErrors.push(`An organization named ${row.organizationName} already exists`);
+        }
+        row.domains.filter((entry) => claimedDomains.has(entry.domain))
+            .forEach((entry) => rowErrors.push(`Domain ${entry.domain} is already claimed by another organization`));
+        row.adminEmails.forEach((email) => {
+            if (adminEmails.has(email)) {
+                rowErrors.push(`${email} is already an administrator`);
+            } else if (invitedEmails.has(email)) {
+                rowErrors.push(`${email} already has a pending admin invite`);
+            }
+        });
+        if (rowErrors.length) {
+            conflicts.push({ row: rowNumber, errors: rowErrors });
+        }
+    }
+    return conflicts;
+};
+
+/**
+ * Provision one import row: create the approved organization and invite its admins
+ * The organization ID is derived from the job and row, so a row interrupted mid-way is resumed
+ * rather than duplicated, and only admins without an invite yet are invited. Existing data is
+ * checked again before the organization is created, since it may have changed since the job started
+ */
+const processBulkImportRow = async (
+    jobId: string,
+    row: BulkImportRow,
+    rowNumber: number,
+    requestedBy: string
+): Promise<BulkImportRowResult> => {
+    const result: BulkImportRowResult = {
+        row: rowNumber,
+        organizationName: row.organizationName,
+        status: "failed",
+        organizationId: null,
+        inviteIds: [],
+        error: null,
+    };
+
+    try {
+        const orgRef = admin.firestore().collection("organizations").doc(`${jobId}-${rowNumber}`);
+        const invitedEmails = new Set<string>();
+        if ((await orgRef.get()).exists) {
+            const existingInvites = await admin.firestore()
+                .collection("adminInvites")
+                .where("organizationId", "==", orgRef.id)
+                .get();
+            existingInvites.docs.forEach((inviteDoc) => {
+                invitedEmails.add(inviteDoc.data().email);
+                result.inviteIds.push(inviteDoc.id);
+            });
+        } else {
+            const [conflict] = await findImportConflicts([{ rowNumber, row }]);
+            if (conflict) {
+                throw new Error(conflict.errors.join("; "));
+            }
+            await orgRef.create({
+                name: row.organizationName,
+                domains: row.domains,
+                locale: row.locale,
+                status: "approved",
+                approved: true,
+                adminUsers: [],
+                importJobId: jobId,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+        }
+        result.organizationId = orgRef.id;
+
+        for (const email of row.adminEmails) {
+            if (invitedEmails.has(email.toLowerCase())) {
+                continue;
+            }
+            const { inviteId } = await createAdminInvite({
+                email,
+                organizationId: orgRef.id,
+                organizationName: row.organizationName,
+                locale: row.locale,
+            }, requestedBy);
+            result.inviteIds.push(inviteId);
+        }
+
+        result.status = "created";
+    } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+        logger.error("Bulk import row failed", { jobId, row: rowNumber, error });
+    }
+
+    return result;
+};
+
+// Public link IDs and vanity handles
+const LINK_ID_LENGTH = getNumberConfig("LINK_ID_LENGTH", 10);
+const LINK_ID_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+const HANDLE_REDIRECT_DAYS = getNumberConfig("HANDLE_REDIRECT_DAYS", 30);
+const HANDLE_REGEX = /^[a-z0-9](?:[a-z0-9_-]{1,28})[a-z0-9]$/;
+const RESERVED_HANDLES = new Set([
+    "admin", "administrator", "api", "app", "auth", "billing", "blog", "dashboard", "help",
+    "login", "logout", "me", "moderator", "official", "root", "security", "settings",
+    "signup", "staff", "status", "support", "system", "tickl", "u", "user", "www",
+]);
+const BLOCKED_HANDLE_TERMS = [
+    "fuck", "shit", "bitch", "cunt", "dick", "pussy", "whore", "slut", "nigger", "nigga",
+    "faggot", "retard", "rape", "nazi", "hitler",
+];
+
+/**
+ * Generate a public link ID with a CSPRNG
+ */
+const generateLinkId = (): string => {
+    let linkId = '';
+    for (let i = 0; i < LINK_ID_LENGTH; i++) {
+        linkId += LINK_ID_ALPHABET.charAt(crypto.randomInt(LINK_ID_ALPHABET.length));
+    }
+    return linkId;
+};
+
+/**
+ * Create a new public link document for a user inside a transaction
+ * The ID is only used if no link document exists for it yet
+ */
+const allocatePublicLink = async (
+    transaction: admin.firestore.Transaction,
+    userId: string,
+    fields: Record<string, unknown> = {}
+): Promise<string> => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const linkId = generateLinkId();
+        const linkRef = admin.firestore().collection('userPublicLinks').doc(linkId);
+        if ((await transaction.get(linkRef)).exists) {
+            logger.warn("Public link ID collision", { linkId });
+            continue;
+        }
+
+        transaction.create(linkRef, {
+            userId,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            isActive: true,
+            viewCount: 0,
+            messageCount: 0,
+            ...fields
+        });
+        return linkId;
+    }
+
+    throw new Error("Could not allocate a public link ID");
+};
+
+/**
+ * Normalize and validate a requested handle, throwing an invalid-argument error when rejected
+ */
+const normalizeHandle = (value: unknown): string => {
+    const handle = String(value ?? "").trim().replace(/^@/, "").toLowerCase();
+
+    if (!HANDLE_REGEX.test(handle) || /[_-]{2}/.test(handle)) {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            "Handles must be 3-30 characters of letters, numbers, '-' or '_', starting and ending with a letter or number"
+        );
+    }
+    if (RESERVED_HANDLES.has(handle)) {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            "This handle is reserved"
+        );
+    }
+
+    // Compare whole words ("-" and "_" separate them) so innocent handles like "grape" pass,
+    // undoing common look-alike substitutions and ignoring trailing numbers ("nazi88")
+    const fold = (value: string) => value
+        .replace(/\d+$/, "")
+        .replace(/0/g, "o").replace(/1/g, "i").replace(/3/g, "e")
+        .replace(/4/g, "a").replace(/5/g, "s").replace(/7/g, "t");
+    const words = [...handle.split(/[_-]+/), handle.replace(/[_-]/g, "")].map(fold);
+    if (words.some((word) => BLOCKED_HANDLE_TERMS.includes(word))) {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            "This handle is not allowed"
+        );
+    }
+
+    return handle;
+};
+
+/**
+ * Look up the link a public handle points to
+ * Old handles in their grace period still resolve, reporting the owner's current handle
+ */
+const lookupPublicHandle = async (value: unknown): Promise<{ linkId: string, handle: string | null, redirect: boolean }> => {
+    const handle = String(value ?? "").trim().replace(/^@/, "").toLowerCase();
+    const notFound = new functions.https.HttpsError(
+        "not-found",
+        "Handle not found"
+    );
+
+    if (!HANDLE_REGEX.test(handle)) {
+        throw notFound;
+    }
+
+    const handleDoc = await admin.firestore().collection('publicHandles').doc(handle).get();
+    const reservation = handleDoc.data();
+    if (!reservation) {
+        throw notFound;
+    }
+
+    const expiresAt = reservation.expiresAt as admin.firestore.Timestamp | null;
+    if (reservation.status === "redirect" && (!expiresAt || expiresAt.toMillis() <= Date.now())) {
+        throw notFound;
+    }
+
+    const userDoc = await admin.firestore().collection('users').doc(reservation.userId).get();
+    const user = userDoc.data();
+    if (!user?.publicLinkId || user.publicProfileEnabled === false) {
+        throw notFound;
+    }
+
+    const currentHandle = (user.publicHandle as string | undefined) ?? null;
+    return {
+        linkId: user.publicLinkId as string,
+        handle: currentHandle,
+        redirect: reservation.status === "redirect" && currentHandle !== handle,
+    };
+};
+
+/**
+ * Link targeted by a public request, given either its link ID or a handle
+ * Handles are resolved here so visitors arriving by handle never learn the link ID behind it
+ */
+const resolvePublicLinkId = async (data: { linkId?: unknown, handle?: unknown }): Promise<string> => {
+    if (data.handle) {
+        return (await lookupPublicHandle(data.handle)).linkId;
+    }
+    if (!data.linkId || typeof data.linkId !== "string") {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            "Missing link ID or handle"
+        );
+    }
+    return data.linkId;
+};
+
+/**
+ * Load the caller's current public link inside a transaction
+ */
+const getCurrentPublicLink = async (transaction: admin.firestore.Transaction, userId: string) => {
+    const userRef = admin.firestore().collection('users').doc(userId);
+    const userDoc = await transaction.get(userRef);
+    const linkId = userDoc.data()?.publicLinkId as string | undefined;
+
+    if (!userDoc.exists || !linkId) {
+        throw new functions.https.HttpsError(
+            "failed-precondition",
+            "You do not have a public link yet"
+        );
+    }
+
+    const linkRef = admin.firestore().collection('userPublicLinks').doc(linkId);
+    const linkDoc = await transaction.get(linkRef);
+    if (!linkDoc.exists || linkDoc.data()?.userId !== userId) {
+        throw new functions.https.HttpsError(
+            "not-found",
+            "Public link not found"
+        );
+    }
+
+    return { userRef, linkRef, linkId, link: linkDoc.data()! };
+};
+
+/**
+ * Pause or resume the caller's current public link
+ */
+const setPublicLinkActive = async (userId: string, active: boolean) => {
+    return admin.firestore().runTransaction(async (transaction) => {
+        const { userRef, linkRef, linkId, link } = await getCurrentPublicLink(transaction, userId);
+
+        if (link.isActive === active) {
+            return { linkId, changed: false };
+        }
+
+        transaction.update(linkRef, {
+            isActive: active,
+            deactivatedAt: active ? null : admin.firestore.FieldValue.serverTimestamp(),
+            lastUpdated: admin.firestore.FieldValue.serverTimestamp()
+        });
+        transaction.update(userRef, { publicProfileEnabled: active });
+
+        return { linkId, changed: true };
+    });
+};
+
+// Profile view tracking
+const VIEW_DEDUP_WINDOW_MINUTES = getNumberConfig("VIEW_DEDUP_WINDOW_MINUTES", 30);
+const LINK_STATS_MAX_DAYS = 90;
+
+/**
+ * UTC day key (YYYY-MM-DD) used for daily link statistics
+ */
+const toDayKey = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
+/**
+ * Build the merge-write that adds view, message or rate-limit counts to a link's daily statistics bucket
+ */
+const dailyLinkStatsUpdate = (linkId: string, counts: { views?: number, messages?: number, rateLimited?: number }) => {
+    const day = toDayKey();
+    return {
+        ref: admin.firestore().collection('userPublicLinks').doc(linkId).collection('dailyStats').doc(day),
+        data: {
+            date: day,
+            views: admin.firestore.FieldValue.increment(counts.views ?? 0),
+            messages: admin.firestore.FieldValue.increment(counts.messages ?? 0),
+            rateLimited: admin.firestore.FieldValue.increment(counts.rateLimited ?? 0),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        },
+    };
+};
+
+// Abuse protection for anonymous messages
+const MESSAGE_RATE_LIMITS = {
+    ip: {
+        limit: getNumberConfig("MESSAGE_LIMIT_PER_IP", 5),
+        windowSeconds: getNumberConfig("MESSAGE_LIMIT_PER_IP_WINDOW_SECONDS", 10 * 60),
+    },
+    link: {
+        limit: getNumberConfig("MESSAGE_LIMIT_PER_LINK", 30),
+        windowSeconds: getNumberConfig("MESSAGE_LIMIT_PER_LINK_WINDOW_SECONDS", 60 * 60),
+    },
+    global: {
+        limit: getNumberConfig("MESSAGE_LIMIT_GLOBAL", 600),
+        windowSeconds: getNumberConfig("MESSAGE_LIMIT_GLOBAL_WINDOW_SECONDS", 60),
+    },
+};
+// The global window is split across shards to stay under Firestore's per-document write rate
+const MESSAGE_GLOBAL_LIMIT_SHARDS = 10;
+
+/**
+ * Record a message against the per-IP, per-link and global sliding windows
+ * Nothing is recorded when a window is full; the caller learns which one and when to retry
+ */
+const reserveMessageSlot = async (
+    linkId: string,
+    ipHash: string,
+    challengeNonce: string | null
+): Promise<{ allowed: true } | { allowed: false, reason: string, retryAfterMs: number }> => {
+    const db = admin.firestore();
+    const globalLimits = MESSAGE_RATE_LIMITS.global;
+    const windows = [
+        { reason: "ip-limit", ref: db.collection("messageRateLimits").doc(`ip_${ipHash}`), ...MESSAGE_RATE_LIMITS.ip },
+        { reason: "link-limit", ref: db.collection("messageRateLimits").doc(`link_${linkId}`), ...MESSAGE_RATE_LIMITS.link },
+        {
+            reason: "global-limit",
+            ref: db.collection("messageRateLimits").doc(`global_${crypto.randomInt(MESSAGE_GLOBAL_LIMIT_SHARDS)}`),
+            limit: Math.ceil(globalLimits.limit / MESSAGE_GLOBAL_LIMIT_SHARDS),
+            windowSeconds: globalLimits.windowSeconds,
+        },
+    ];
+    const challengeRef = challengeNonce ? db.collection("messageChallenges").doc(challengeNonce) : null;
+
+    return db.runTransaction(async (transaction) => {
+        const windowDocs = await transaction.getAll(...windows.map((window) => window.ref));
+        if (challengeRef && (await transaction.get(challengeRef)).exists) {
+            throw new functions.https.HttpsError(
+                "failed-precondition",
+                "Challenge already used",
+                { reason: "challenge-required" }
+            );
+        }
+
+        const now = Date.now();
+        const hits = windows.map((window, index) => ((windowDocs[index].data()?.hits || []) as number[])
+            .filter((hit) => hit > now - window.windowSeconds * 1000));
+
+        for (const [index, window] of windows.entries()) {
+            if (hits[index].length >= window.limit) {
+                return {
+                    allowed: false as const,
+                    reason: window.reason,
+                    retryAfterMs: hits[index][0] + window.windowSeconds * 1000 - now,
+                };
+            }
+        }
+
+        // expiresAt lets a TTL policy remove idle windows and used challenges
+        windows.forEach((window, index) => {
+            transaction.set(window.ref, {
+                hits: [...hits[index], now],
+                expiresAt: admin.firestore.Timestamp.fromMillis(now + window.windowSeconds * 1000)
+            });
+        });
+        if (challengeRef) {
+            transaction.create(challengeRef, {
+                usedAt: admin.firestore.Timestamp.fromMillis(now),
+                expiresAt: admin.firestore.Timestamp.fromMillis(now + MESSAGE_CHALLENGE_TTL_SECONDS * 1000)
+            });
+        }
+
+        return { allowed: true as const };
+    });
+};
+
+// Message moderation
+const MAX_MESSAGE_LENGTH = getNumberConfig("MAX_MESSAGE_LENGTH", 1000);
+const MAX_SENDER_NAME_LENGTH = getNumberConfig("MAX_SENDER_NAME_LENGTH", 50);
+const MODERATION_CONFIG_CACHE_MS = 60 * 1000;
+
+let globalModerationCache: { rules: ModerationRule[], detectors: ModerationDetectors, loadedAt: number } | null = null;
+
+/**
+ * Load the global rules and detector settings, cached briefly per instance
+ */
+const getGlobalModerationConfig = async () => {
+    if (globalModerationCache && Date.now() - globalModerationCache.loadedAt < MODERATION_CONFIG_CACHE_MS) {
+        return globalModerationCache;
+    }
+
+    const configDoc = await admin.firestore().collection("moderationConfig").doc("global").get();
+    const config = configDoc.data() || {};
+    globalModerationCache = {
+        rules: (config.rules || []) as ModerationRule[],
+        detectors: { ...DEFAULT_MODERATION_DETECTORS, ...(config.detectors || {}) },
+        loadedAt: Date.now(),
+    };
+    return globalModerationCache;
+};
+
+/**
+ * Shape an anonymousMessages document for its recipient, leaving out sender metadata
+ */
+const toMessageSummary = (messageDoc: admin.firestore.DocumentSnapshot) => {
+    const message = messageDoc.data() || {};
+    return {
+        messageId: messageDoc.id,
+        senderName: message.senderName,
+        message: message.message,
+        linkId: message.linkId,
+        read: message.read === true,
+        starred: message.starred === true,
+        archived: message.archived === true,
+        status: message.status ?? "visible",
+        // Older messages recorded "rule:<type>:<pattern>"; only the kind of match is shown
+        moderationReasons: ((message.moderation?.reasons ?? []) as string[])
+            .map((reason) => reason.split(":").length > 2 ? "rule" : reason),
+        reply: message.reply ? {
+            text: message.reply.text,
+            visibility: message.reply.visibility,
+            repliedAt: message.reply.repliedAt ? message.reply.repliedAt.toMillis() : null,
+        } : null,
+        createdAt: message.createdAt ? message.createdAt.toMillis() : null,
+    };
+};
+
+// Recipient inbox
+const INBOX_MAX_BULK = 100;
+type InboxFilter = "all" | "unread" | "starred" | "archived";
+type InboxAction = "markRead" | "markUnread" | "star" | "unstar" | "archive" | "unarchive";
+
+const INBOX_ACTION_UPDATES: Record<InboxAction, Record<string, boolean>> = {
+    markRead: { read: true },
+    markUnread: { read: false },
+    star: { starred: true },
+    unstar: { starred: false },
+    archive: { archived: true },
+    unarchive: { archived: false },
+};
+
+/**
+ * Validate a bulk list of message IDs from the caller
+ */
+const requireMessageIds = (messageIds: unknown): string[] => {
+    if (!Array.isArray(messageIds) || messageIds.length === 0 || messageIds.length > INBOX_MAX_BULK ||
+        messageIds.some((id) => typeof id !== "string" || !id)) {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            `Provide between 1 and ${INBOX_MAX_BULK} message IDs`
+        );
+    }
+    return [...new Set(messageIds as string[])];
+};
+
+/**
+ * Whether a message belongs in the recipient's inbox
+ * Quarantined ones are reviewed separately and removed ones were taken down by moderators
+ */
+const isInboxMessage = (message: admin.firestore.DocumentData | undefined, userId: string): boolean => {
+    return !!message && message.recipientId === userId && message.status !== "quarantined" && message.status !== "removed";
+};
+
+/**
+ * Read the link that holds a user's message count inside a transaction
+ * Rotation carries the count over, so this is always the current link, whichever link a message came in on;
+ * null when the user has no link document to update
+ */
+const getCountedPublicLink = async (
+    transaction: admin.firestore.Transaction,
+    userId: string
+): Promise<{ linkId: string, ref: admin.firestore.DocumentReference } | null> => {
+    const userDoc = await transaction.get(admin.firestore().collection("users").doc(userId));
+    const linkId = userDoc.data()?.publicLinkId as string | undefined;
+    if (!linkId) {
+        return null;
+    }
+    const linkRef = admin.firestore().collection("userPublicLinks").doc(linkId);
+    return (await transaction.get(linkRef)).exists ? { linkId, ref: linkRef } : null;
+};
+
+// Replies to anonymous messages
+type ReplyVisibility = "public" | "private";
+
+/**
+ * Hash a sender receipt token; only the hash is stored on the message
+ */
+const hashReceiptToken = (token: string): string => {
+    return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+/**
+ * Shape a publicAnswers document for the public profile; the sender's name is never published
+ */
+const toPublicAnswer = (answerDoc: admin.firestore.DocumentSnapshot) => {
+    const answer = answerDoc.data() || {};
+    return {
+        answerId: answerDoc.id,
+        message: answer.message,
+        answer: answer.answer,
+        answeredAt: answer.answeredAt ? answer.answeredAt.toMillis() : null,
+    };
+};
+
+// Reports, blocks and bans
+const REPORT_REASONS = ["harassment", "spam", "threat", "hate", "selfHarm", "personalInfo", "other"] as const;
+type ReportReason = typeof REPORT_REASONS[number];
+type ReportResolution = "dismissed" | "actioned";
+
+// Bumped whenever the fingerprint inputs change; older fingerprints are not used for blocks or bans
+const SENDER_FINGERPRINT_VERSION = 2;
+// Returned with blocks and bans, since a fingerprint can't tell apart people on the same network and browser
+const SHARED_NETWORK_NOTICE = "Senders are identified by their network and browser, so people sharing an office, " +
+    "school or VPN connection with the same browser may be affected as well.";
+
+/**
+ * Fingerprint a sender from their IP address, user agent and the client ID their browser keeps
+ * Returns null without an IP so unidentifiable senders never share one fingerprint that could be blocked
+ */
+const computeSenderFingerprint = (ip: string | undefined, userAgent: string, clientId: unknown): string | null => {
+    if (!ip) {
+        return null;
+    }
+    const client = typeof clientId === "string" ? clientId.slice(0, 128) : "";
+    return hashIdentifier("sender", `${ip}|${userAgent}|${client}`);
+};
+
+/**
+ * Sender fingerprint stored on a message or report, or null when it has none of the current version
+ * Messages from before fingerprints combined several signals can't be blocked
+ */
+const getSenderFingerprint = (record: admin.firestore.DocumentData): string | null => {
+    return record.senderFingerprintVersion === SENDER_FINGERPRINT_VERSION ? record.senderFingerprint ?? null : null;
+};
+
+/**
+ * Whether a sender is banned platform-wide or blocked by the recipient
+ */
+const getSenderRestriction = async (fingerprint: string, recipientId: string): Promise<"banned" | "blocked" | null> => {
+    const [banDoc, blockDoc] = await admin.firestore().getAll(
+        admin.firestore().collection("senderBans").doc(fingerprint),
+        admin.firestore().collection("users").doc(recipientId).collection("blockedSenders").doc(fingerprint)
+    );
+
+    const ban = banDoc.data();
+    if (ban && (!ban.expiresAt || ban.expiresAt.toMillis() > Date.now())) {
+        return "banned";
+    }
+    return blockDoc.exists ? "blocked" : null;
+};
+
+/**
+ * Shape a messageReports document for the moderation queue
+ */
+const toReportSummary = (reportDoc: admin.firestore.DocumentSnapshot) => {
+    const report = reportDoc.data() || {};
+    return {
+        reportId: reportDoc.id,
+        messageId: report.messageId,
+        recipientId: report.recipientId,
+        organizationId: report.organizationId ?? null,
+        reason: report.reason,
+        details: report.details ?? null,
+        message: report.message,
+        senderName: report.senderName,
+        status: report.status,
+        resolution: report.resolution ?? null,
+        resolvedBy: report.resolvedBy ?? null,
+        senderBanned: report.senderBanned === true,
+        createdAt: report.createdAt ? report.createdAt.toMillis() : null,
+        resolvedAt: report.resolvedAt ? report.resolvedAt.toMillis() : null,
+    };
+};
+
+// Message notifications
+const NOTIFICATION_MODES = ["instant", "daily", "weekly", "off"] as const;
+type NotificationMode = typeof NOTIFICATION_MODES[number];
+const INSTANT_NOTIFICATION_COOLDOWN_MINUTES = getNumberConfig("INSTANT_NOTIFICATION_COOLDOWN_MINUTES", 5);
+const DIGEST_SNIPPET_COUNT = 5;
+const NOTIFICATION_SNIPPET_LENGTH = 140;
+const INBOX_URL = getConfig("INBOX_URL", "https://tickl-5c52c.web.app/inbox");
+const UNSUBSCRIBE_BASE_URL = getConfig(
+    "UNSUBSCRIBE_BASE_URL",
+    `https://us-central1-${process.env.GCLOUD_PROJECT}.cloudfunctions.net/unsubscribeNotifications`
+);
+const UNSUBSCRIBE_SUCCESS_URL = getConfig("UNSUBSCRIBE_SUCCESS_URL", "https://tickl-5c52c.web.app/unsubscribed");
+const UNSUBSCRIBE_FAILURE_URL = getConfig("UNSUBSCRIBE_FAILURE_URL", "https://tickl-5c52c.web.app/unsubscribe-failed");
+
+/**
+ * A user's notification mode; users who never chose one get instant notifications
+ */
+const getNotificationMode = (user: admin.firestore.DocumentData | undefined): NotificationMode => {
+    const mode = user?.notificationPreferences?.mode;
+    return NOTIFICATION_MODES.includes(mode) ? mode : "instant";
+};
+
+/**
+ * Shorten a message to a single-line snippet for notification emails
+ */
+const toNotificationSnippet = (text: unknown): string => {
+    const clean = String(text ?? "").replace(/\s+/g, " ").trim();
+    return clean.length > NOTIFICATION_SNIPPET_LENGTH ? `${clean.slice(0, NOTIFICATION_SNIPPET_LENGTH - 1)}…` : clean;
+};
+
+/**
+ * Address to notify: the account email, falling back to the verified company email
+ */
+const getNotificationEmail = async (userId: string, user: admin.firestore.DocumentData): Promise<string | null> => {
+    if (user.email) {
+        return user.email;
+    }
+    const userRecord = await admin.auth().getUser(userId).catch(() => null);
+    return userRecord?.email ?? (user.companyEmailVerified ? user.companyEmail ?? null : null);
+};
+
+/**
+ * Render a notification email with the inbox link and one-click unsubscribe link and headers
+ */
+const renderNotificationEmail = <K extends "newMessage" | "messageDigest">(
+    name: K,
+    to: string,
+    userId: string,
+    locale: string | undefined,
+    data: Omit<EmailTemplateData<K>, "inboxUrl" | "unsubscribeUrl">
+): MailMessage => {
+    const unsubscribeUrl = `${UNSUBSCRIBE_BASE_URL}?uid=${encodeURIComponent(userId)}&sig=${signUnsubscribe(userId)}`;
+    const message = renderEmail(name, to, { ...data, inboxUrl: INBOX_URL, unsubscribeUrl } as EmailTemplateData<K>, resolveLocale(locale));
+    return {
+        ...message,
+        headers: {
+            "List-Unsubscribe": `<${unsubscribeUrl}>`,
+            "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        },
+    };
+};
+
+/**
+ * Send one user their digest of visible messages received since their last digest
+ * Returns whether an email was queued; nothing is sent when there are no new messages
+ */
+const sendMessageDigest = async (
+    userDoc: admin.firestore.QueryDocumentSnapshot,
+    period: "daily" | "weekly"
+): Promise<boolean> => {
+    const user = userDoc.data();
+    const periodMs = (period === "weekly" ? 7 : 1) * 24 * 60 * 60 * 1000;
+    const lastDigestAt = user.notificationState?.lastDigestAt as admin.firestore.Timestamp | undefined;
+    const since = admin.firestore.Timestamp.fromMillis(Math.max(lastDigestAt?.toMillis() ?? 0, Date.now() - periodMs));
+
+    const messagesQuery = admin.firestore().collection("anonymousMessages")
+        .where("recipientId", "==", userDoc.id)
+        .where("status", "==", "visible")
+        .where("createdAt", ">", since);
+    const [countSnapshot, latestSnapshot] = await Promise.all([
+        messagesQuery.count().get(),
+        messagesQuery.orderBy("createdAt", "desc").limit(DIGEST_SNIPPET_COUNT).get()
+    ]);
+
+    const count = countSnapshot.data().count;
+    const email = count > 0 ? await getNotificationEmail(userDoc.id, user) : null;
+
+    if (email) {
+        await enqueueEmail("messageDigest", renderNotificationEmail("messageDigest", email, userDoc.id, user.locale, {
+            period,
+            count,
+            snippets: latestSnapshot.docs.map((messageDoc) => toNotificationSnippet(messageDoc.data().message)),
+        }), { organizationId: user.organizationId ?? null });
+    }
+
+    await userDoc.ref.update({ "notificationState.lastDigestAt": admin.firestore.FieldValue.serverTimestamp() });
+    return !!email;
+};
+
+// Data retention
+const MESSAGE_METADATA_RETENTION_DAYS = getNumberConfig("MESSAGE_METADATA_RETENTION_DAYS", 90);
+const EMAIL_VERIFICATION_PURGE_GRACE_HOURS = getNumberConfig("EMAIL_VERIFICATION_PURGE_GRACE_HOURS", 24);
+const PURGE_BATCH_SIZE = 500;
+const PURGE_MAX_BATCHES = 40;
+
+/**
+ * Repeatedly fetch a page of a query and apply writes to it in one batch
+ * The writes must take each document out of the query, or the same page would come back
+ */
+const processQueryInBatches = async (
+    query: admin.firestore.Query,
+    apply: (batch: admin.firestore.WriteBatch, doc: admin.firestore.QueryDocumentSnapshot) => void
+): Promise<number> => {
+    let processed = 0;
+    for (let i = 0; i < PURGE_MAX_BATCHES; i++) {
+        const snapshot = await query.limit(PURGE_BATCH_SIZE).get();
+        if (snapshot.empty) {
+            break;
+        }
+
+        const batch = admin.firestore().batch();
+        snapshot.docs.forEach((doc) => apply(batch, doc));
+        await batch.commit();
+        processed += snapshot.size;
+
+        if (snapshot.size < PURGE_BATCH_SIZE) {
+            break;
+        }
+    }
+    return processed;
+};
+
+// Define types for the function parameters
+interface EmailVerificationData {
+    email: string;
+    organizationId: string;
+    includeMagicLink?: boolean;
+}
+
+interface OtpVerificationData {
+    otp: string;
+}
+
+interface AdminCredentialsData {
+    email: string;
+    password: string;
+    organizationName: string;
+    dashboardUrl?: string;
+    locale?: string;
+}
+
+interface ApproveOrgData {
+    organizationId: string;
+    approved: boolean;
+    reason?: string;
+}
+
+interface UpdateOrganizationStatusData {
+    organizationId: string;
+    status: OrganizationStatus;
+    reason?: string;
+}
+
+interface ApplyForOrganizationData {
+    name: string;
+    domains: Array<string | OrganizationDomain>;
+    contactEmail?: string;
+    locale?: string;
+}
+
+interface GrantRoleData {
+    uid?: string;
+    email?: string;
+    role: Role;
+    organizationId?: string;
+}
+
+interface RevokeRoleData {
+    uid?: string;
+    email?: string;
+}
+
+interface InviteOrgAdminData {
+    email: string;
+    organizationId: string;
+    locale?: string;
+}
+
+interface AcceptAdminInviteData {
+    inviteId: string;
+    token: string;
+    // Only needed when the invitee has no account yet
+    password?: string;
+}
+
+interface ListAdminInvitesData {
+    organizationId?: string;
+    status?: InviteStatus;
+}
+
+interface AdminInviteData {
+    inviteId: string;
+}
+
+interface OrgAdminsData {
+    organizationId: string;
+}
+
+interface RemoveOrgAdminData {
+    organizationId: string;
+    uid: string;
+    disableUser?: boolean;
+}
+
+interface TransferOrgOwnershipData {
+    organizationId: string;
+    uid: string;
+}
+
+interface QueryAuditLogsData {
+    organizationId?: string;
+    action?: string;
+    actorUid?: string;
+    targetId?: string;
+    from?: number;
+    to?: number;
+    limit?: number;
+    startAfter?: string;
+}
+
+interface StartBulkImportData {
+    format: "csv" | "json";
+    content: unknown;
+    dryRun?: boolean;
+}
+
+interface BulkImportJobData {
+    jobId: string;
+    format?: "csv" | "json";
+}
+
+interface PreviewEmailTemplateData {
+    template: string;
+    data?: Record<string, unknown>;
+    locale?: string;
+}
+
+interface EmailStatusData {
+    emailId: string;
+}
+
+interface ListOutboxEmailsData {
+    status?: OutboxStatus;
+    organizationId?: string;
+    limit?: number;
+    startAfter?: string;
+}
+
+interface ClaimPublicHandleData {
+    handle: string;
+}
+
+interface ResolvePublicHandleData {
+    handle: string;
+}
+
+interface RecordProfileViewData {
+    linkId?: string;
+    handle?: string;
+}
+
+interface RotatePublicLinkData {
+    releaseHandle?: boolean;
+}
+
+interface LinkStatsData {
+    days?: number;
+}
+
+interface UpdateModerationRulesData {
+    scope: ModerationScope;
+    organizationId?: string;
+    rules: ModerationRule[];
+    detectors?: Partial<ModerationDetectors>;
+}
+
+interface ListQuarantinedMessagesData {
+    limit?: number;
+    startAfter?: string;
+}
+
+interface ReviewQuarantinedMessageData {
+    messageId: string;
+    action: "release" | "delete";
+}
+
+interface ListInboxMessagesData {
+    filter?: InboxFilter;
+    from?: number;
+    to?: number;
+    limit?: number;
+    startAfter?: string;
+}
+
+interface UpdateInboxMessagesData {
+    messageIds: string[];
+    action: InboxAction;
+}
+
+interface InboxMessageIdsData {
+    messageIds: string[];
+}
+
+interface ReplyToMessageData {
+    messageId: string;
+    reply: string;
+    visibility: ReplyVisibility;
+}
+
+interface MessageIdData {
+    messageId: string;
+}
+
+// Public endpoints address a profile by link ID or by handle
+interface PublicAnswersData {
+    linkId?: string;
+    handle?: string;
+    limit?: number;
+    startAfter?: string;
+}
+
+interface MessageReceiptData {
+    receiptToken: string;
+}
+
+interface ReportMessageData {
+    messageId: string;
+    reason: ReportReason;
+    details?: string;
+    block?: boolean;
+}
+
+interface BlockedSenderData {
+    blockId: string;
+}
+
+interface ListModerationReportsData {
+    status?: "open" | "resolved";
+    organizationId?: string;
+    limit?: number;
+    startAfter?: string;
+}
+
+interface ResolveModerationReportData {
+    reportId: string;
+    resolution: ReportResolution;
+    note?: string;
+    removeMessage?: boolean;
+    banSender?: boolean;
+    banDays?: number;
+}
+
+interface NotificationPreferencesData {
+    mode: NotificationMode;
+}
+
+// Interface for anonymous message data
+interface AnonymousMessageData {
+    linkId?: string;
+    handle?: string;
+    message: string;
+    senderName: string;
+    challenge?: string;
+    solution?: string;
+    // A random ID the sender's browser keeps, which helps tell apart senders on a shared network
+    clientId?: string;
+}
+
+interface MessageChallengeData {
+    linkId?: string;
+    handle?: string;
+}
+
+// Simple test function with proper service account
+export const helloWorld = functions.https.onRequest({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, (request, response) => {
+    logger.info("Hello logs!", { structuredData: true });
+    response.send("Hello from Firebase!");
+});
+
+/**
+ * Send email verification OTP
+ * This function sends a verification code to the user's email
+ */
+export const sendEmailVerification = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<EmailVerificationData>) => {
+    try {
+        // Check if user is authenticated
+        const userId = requireAuth(request.auth, "User must be authenticated").uid;
+        const { email, organizationId, includeMagicLink } = request.data;
+
+        // Validate input
+        if (!email || !organizationId) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Email and organization ID are required"
+            );
+        }
+
+        // Validate email format
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        if (!emailRegex.test(email)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Invalid email format"
+            );
+        }
+
+        logger.info(`Sending email verification to ${email.split("@")[0]}***`);
+
+        // Verify email domain belongs to organization
+        const orgDoc = await admin.firestore()
+            .collection("organizations")
+            .doc(organizationId)
+            .get();
+
+        if (!orgDoc.exists) {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "Organization not found"
+            );
+        }
+
+        const organization = orgDoc.data() as OrganizationEmailPolicy;
+        assertOrganizationActive(orgDoc.data() || {}, `${organization.name} is not currently accepting email verifications`);
+        const emailDomain = email.split("@")[1].toLowerCase();
+        const allowedDomains = getAllowedDomains(organization);
+
+        // Check if email domain matches one of the organization's domains
+        if (!isAllowedDomain(emailDomain, allowedDomains)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                allowedDomains.length ?
+                    `Email domain does not match ${organization.name}'s domains (${describeAllowedDomains(allowedDomains)})` :
+                    `${organization.name} has no email domains configured`,
+                { allowedDomains }
+            );
+        }
+
+        // Shared mailboxes can't be used to verify an individual
+        if (isDeniedEmail(email, organization.deniedEmails)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "This email address can't be used for verification. Please use your personal work email."
+            );
+        }
+
+        if (includeMagicLink && !MAGIC_LINK_SECRET) {
+            throw new functions.https.HttpsError(
+                "failed-precondition",
+                "Verification links are not configured"
+            );
+        }
+
+        // Generate the code and keep only a salted hash of it
+        const otp = generateOtp();
+        const otpSalt = crypto.randomBytes(16).toString("hex");
+
+        // Optionally issue a single-use link; only a hash of its nonce is stored
+        const linkNonce = includeMagicLink ? crypto.randomBytes(32).toString("hex") : null;
+        const magicLink = linkNonce ?
+            `${MAGIC_LINK_BASE_URL}?token=${encodeURIComponent(`${userId}.${linkNonce}.${signMagicLink(userId, linkNonce)}`)}` :
+            null;
+
+        // Store OTP in Firestore with expiration
+        const expiresAt = admin.firestore.Timestamp.fromDate(
+            new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000)
+        );
+
+        // Email the user in their own language, falling back to the organization's
+        const userDoc = await admin.firestore().collection("users").doc(userId).get();
+        const locale = resolveLocale(userDoc.data()?.locale, organization.locale);
+
+        const mailOptions = renderEmail("verificationCode", email, {
+            otp,
+            expiresInMinutes: OTP_TTL_MINUTES,
+            magicLink,
+        }, locale);
+
+        // Enforce resend cooldowns, store the verification data (replacing, and so invalidating, any
+        // previously issued code) and queue the email together, so a send only counts if it was queued
+        const outboxRef = admin.firestore().collection("emailOutbox").doc();
+        await admin.firestore().runTransaction(async (transaction) => {
+            await reserveVerificationSend(transaction, userId, email);
+
+            transaction.set(admin.firestore().collection("emailVerifications").doc(userId), {
+                email,
+                otpHash: hashOtp(otp, otpSalt),
+                otpSalt,
+                linkNonceHash: linkNonce ? hashOtp(linkNonce, otpSalt) : null,
+                organizationId,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                expiresAt,
+                verified: false,
+                failedAttempts: 0,
+                locked: false,
+            });
+            transaction.create(outboxRef, newOutboxEmail("verificationCode", mailOptions, { requestedBy: userId, organizationId }));
+        });
+        const emailId = outboxRef.id;
+        logger.info(`Email verification queued for ${email.split("@")[0]}***`, { emailId });
+
+        return { success: true, emailId };
+    } catch (error) {
+        logger.error("Error sending email verification:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to send verification email"
+        );
+    }
+});
+
+/**
+ * Verify email OTP
+ * This function verifies the OTP entered by the user
+ */
+export const verifyEmailOtp = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<OtpVerificationData>) => {
+    try {
+        // Check if user is authenticated
+        const userId = requireAuth(request.auth, "User must be authenticated").uid;
+        const otp = request.data.otp?.toString().trim();
+
+        // Validate input
+        if (!otp) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Verification code is required"
+            );
+        }
+
+        logger.info(`Verifying email OTP for user ${userId}`);
+
+        // Check the code and count failed attempts atomically so concurrent guesses can't slip past the limit
+        const verificationRef = admin.firestore().collection("emailVerifications").doc(userId);
+        const outcome = await admin.firestore().runTransaction(async (transaction) => {
+            const verificationDoc = await transaction.get(verificationRef);
+
+            if (!verificationDoc.exists) {
+                return { status: "not-found" as const };
+            }
+
+            const verification = verificationDoc.data() as {
+                email: string;
+                otpHash?: string;
+                otpSalt?: string;
+                expiresAt: admin.firestore.Timestamp;
+                organizationId: string;
+                failedAttempts?: number;
+                locked?: boolean;
+            };
+
+            if (verification.locked) {
+                return { status: "locked" as const };
+            }
+
+            // Suspended organizations can't complete verifications issued before the suspension
+            const orgDoc = await transaction.get(
+                admin.firestore().collection("organizations").doc(verification.organizationId)
+            );
+            assertOrganizationActive(orgDoc.data() || {}, "This organization is not currently accepting email verifications");
+
+            // Check if expired (records issued before codes were hashed are treated as expired)
+            const now = admin.firestore.Timestamp.now();
+            if (verification.expiresAt.toMillis() < now.toMillis() ||
+                !verification.otpHash || !verification.otpSalt) {
+                return { status: "expired" as const };
+            }
+
+            // Check OTP, locking the record once the attempt limit is reached
+            if (!otpMatches(otp, verification.otpSalt, verification.otpHash)) {
+                const failedAttempts = (verification.failedAttempts ?? 0) + 1;
+                const locked = failedAttempts >= OTP_MAX_ATTEMPTS;
+                transaction.update(verificationRef, { failedAttempts, locked });
+                return locked ?
+                    { status: "locked" as const } :
+                    { status: "invalid" as const, attemptsRemaining: OTP_MAX_ATTEMPTS - failedAttempts };
+            }
+
+            // Mark as verified
+            transaction.update(verificationRef, {
+                verified: true,
+                verifiedAt: admin.firestore.FieldValue.serverTimestamp(),
+                linkNonceHash: null,
+            });
+            return { status: "verified" as const, verification };
+        });
+
+        if (outcome.status === "not-found") {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "Verification record not found. Please request a new code."
+            );
+        }
+
+        if (outcome.status === "locked") {
+            throw rateLimitError(
+                "otp-locked",
+                "Too many incorrect attempts. Please request a new code.",
+                await getUserResendRetryAfter(userId)
+            );
+        }
+
+        if (outcome.status === "expired") {
+            throw new functions.https.HttpsError(
+                "deadline-exceeded",
+                "Verification code has expired. Please request a new code."
+            );
+        }
+
+        if (outcome.status === "invalid") {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Invalid verification code",
+                { attemptsRemaining: outcome.attemptsRemaining }
+            );
+        }
+
+        const { verification } = outcome;
+
+        // Update user profile
+        await completeEmailVerification(userId, verification.email, verification.organizationId);
+
+        return {
+            success: true,
+            email: verification.email,
+        };
+    } catch (error) {
+        logger.error("Error verifying email:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to verify email"
+        );
+    }
+});
+
+/**
+ * Verify email via magic link
+ * This endpoint shows a confirmation page for the link in the verification email; submitting it
+ * consumes the single-use link and redirects to the app. Mail scanners and link prefetchers only
+ * ever GET the link, so they can't use it up or verify an address nobody clicked
+ */
+export const verifyEmailLink = functions.https.onRequest({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request, response) => {
+    const fail = (reason: string) => {
+        response.redirect(303, `${MAGIC_LINK_FAILURE_URL}?reason=${encodeURIComponent(reason)}`);
+    };
+
+    try {
+        if (request.method !== "GET" && request.method !== "POST") {
+            response.status(405).set("Allow", "GET, POST").send("Method not allowed");
+            return;
+        }
+
+        const token = typeof request.query.token === "string" ? request.query.token : "";
+        const parsed = parseMagicLinkToken(token);
+
+        if (!parsed) {
+            logger.warn("Rejected magic link with invalid signature");
+            fail("invalid");
+            return;
+        }
+
+        if (request.method === "GET") {
+            const action = `?token=${encodeURIComponent(token)}`;
+            response.status(200).set("Cache-Control", "no-store").send(
+                "<!DOCTYPE html><html><head><meta charset=\"utf-8\">" +
+                "<meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">" +
+                "<title>Verify your email</title></head><body>" +
+                "<h1>Verify your email address?</h1>" +
+                "<p>Confirm that you requested to verify this email address for your organization.</p>" +
+                `<form method="POST" action="${escapeHtml(action)}">` +
+                "<button type=\"submit\">Verify email</button></form></body></html>"
+            );
+            return;
+        }
+
+        const { userId, nonce } = parsed;
+        const verificationRef = admin.firestore().collection("emailVerifications").doc(userId);
+
+        // Consume the link in a transaction so it can only be used once
+        const outcome = await admin.firestore().runTransaction(async (transaction) => {
+            const verificationDoc = await transaction.get(verificationRef);
+
+            if (!verificationDoc.exists) {
+                return { status: "invalid" as const };
+            }
+
+            const verification = verificationDoc.data() as {
+                email: string;
+                otpSalt?: string;
+                linkNonceHash?: string | null;
+                expiresAt: admin.firestore.Timestamp;
+                organizationId: string;
+                verified?: boolean;
+                locked?: boolean;
+            };
+
+            if (verification.verified || verification.locked ||
+                !verification.linkNonceHash || !verification.otpSalt ||
+                !otpMatches(nonce, verification.otpSalt, verification.linkNonceHash)) {
+                return { status: "invalid" as const };
+            }
+
+            if (verification.expiresAt.toMillis() < Date.now()) {
+                return { status: "expired" as const };
+            }
+
+            const orgDoc = await transaction.get(
+                admin.firestore().collection("organizations").doc(verification.organizationId)
+            );
+            if (!isOrganizationActive(orgDoc.data() || {})) {
+                return { status: "suspended" as const };
+            }
+
+            transaction.update(verificationRef, {
+                verified: true,
+                verifiedAt: admin.firestore.FieldValue.serverTimestamp(),
+                linkNonceHash: null,
+            });
+            return {
+                status: "verified" as const,
+                email: verification.email,
+                organizationId: verification.organizationId,
+            };
+        });
+
+        if (outcome.status !== "verified") {
+            fail(outcome.status);
+            return;
+        }
+
+        await completeEmailVerification(userId, outcome.email, outcome.organizationId);
+        response.redirect(303, MAGIC_LINK_SUCCESS_URL);
+    } catch (error) {
+        logger.error("Error verifying email link:", error);
+        fail("error");
+    }
+});
+
+/**
+ * Send admin credentials
+ * This function sends login credentials to admin users
+ * Deprecated: use inviteOrgAdmin so passwords are never sent by email
+ */
+export const sendAdminCredentials = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<AdminCredentialsData>) => {
+    try {
+        const { data } = request;
+
+        // Ensure the request is from a super admin or an org admin
+        const auth = requireOrgAdmin(
+            request.auth,
+            null,
+            "Only organization administrators can create admin accounts"
+        );
+
+        // Validate required data
+        const { email, password, organizationName, dashboardUrl, locale } = data;
+
+        if (!email || !password || !organizationName) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing required information"
+            );
+        }
+
+        const adminDashboardUrl = resolveDashboardUrl(dashboardUrl);
+
+        // Prepare email
+        const mailOptions = renderEmail("adminCredentials", email, {
+            organizationName,
+            email,
+            password,
+            dashboardUrl: adminDashboardUrl,
+        }, resolveLocale(locale));
+
+        // Queue email
+        const emailId = await enqueueEmail("adminCredentials", mailOptions, { requestedBy: auth.uid });
+        logger.info("Admin credentials email queued", { email, emailId });
+
+        await writeAuditLog(request, {
+            action: "adminCredentials.send",
+            targetType: "email",
+            targetId: email.toLowerCase(),
+            after: { organizationName, emailId },
+        });
+
+        // Return success
+        return { success: true, emailId };
+    } catch (error) {
+        logger.error("Error sending credentials email:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to send credentials email"
+        );
+    }
+});
+
+/**
+ * Approve Organization
+ * This function is used by super admins to approve organizations on the platform
+ */
+export const approveOrganization = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<ApproveOrgData>) => {
+    try {
+        const { data } = request;
+
+        // Ensure the request is from a super admin
+        const auth = requireSuperAdmin(request.auth, "Only super administrators can approve organizations");
+
+        // Validate required data
+        const { organizationId, approved, reason } = data;
+
+        if (!organizationId) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing organization ID"
+            );
+        }
+
+        // Approving notifies every admin; declining is a rejection, and its reason stays optional
+        // here so callers written before reasons existed keep working
+        const nextStatus = approved ? "approved" : "rejected";
+
+        // Approving twice is a no-op so retries from the admin UI still succeed
+        if (approved) {
+            const orgDoc = await admin.firestore().collection("organizations").doc(organizationId).get();
+            if (orgDoc.exists && getOrganizationStatus(orgDoc.data() || {}) === "approved") {
+                return { success: true, alreadyApproved: true, emailId: null, emailIds: [] };
+            }
+        }
+        const { previousStatus, emailIds } = await transitionOrganizationStatus(
+            organizationId,
+            nextStatus,
+            reason,
+            auth.uid,
+            { reasonOptional: true }
+        );
+
+        await writeAuditLog(request, {
+            action: `organization.${nextStatus}`,
+            targetType: "organization",
+            targetId: organizationId,
+            organizationId,
+            before: { status: previousStatus },
+            after: { status: nextStatus, reason: reason?.trim() || null },
+        });
+
+        // Return success
+        return { success: true, emailId: emailIds[0] ?? null, emailIds };
+    } catch (error) {
+        logger.error("Error approving organization:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to approve organization"
+        );
+    }
+});
+
+/**
+ * Update organization status
+ * This function moves an organization through its lifecycle (approve, reject, suspend, reinstate, archive)
+ */
+export const updateOrganizationStatus = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<UpdateOrganizationStatusData>) => {
+    try {
+        const { data } = request;
+        const auth = requireSuperAdmin(request.auth, "Only super administrators can change organization status");
+
+        if (!data.organizationId || !data.status) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Organization ID and status are required"
+            );
+        }
+
+        const { previousStatus, emailIds } = await transitionOrganizationStatus(
+            data.organizationId,
+            data.status,
+            data.reason,
+            auth.uid
+        );
+
+        await writeAuditLog(request, {
+            action: `organization.${data.status}`,
+            targetType: "organization",
+            targetId: data.organizationId,
+            organizationId: data.organizationId,
+            before: { status: previousStatus },
+            after: { status: data.status, reason: data.reason ?? null },
+        });
+
+        return { success: true, previousStatus, status: data.status, emailIds };
+    } catch (error) {
+        logger.error("Error updating organization status:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to update organization status"
+        );
+    }
+});
+
+/**
+ * Apply for organization
+ * This function lets any signed-in user submit a new organization, which starts out pending review
+ */
+export const applyForOrganization = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<ApplyForOrganizationData>) => {
+    try {
+        const auth = requireAuth(request.auth, "User must be authenticated");
+        const { name, domains, contactEmail, locale } = request.data;
+
+        if (!name?.trim() || !Array.isArray(domains) || domains.length === 0) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Organization name and at least one domain are required"
+            );
+        }
+
+        if (name.trim().length > 100 || domains.length > 20) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Organization name or domain list is too long"
+            );
+        }
+
+        // Accept plain domain strings or { domain, includeSubdomains } entries
+        const normalizedDomains: OrganizationDomain[] = domains.map((entry) => ({
+            domain: (typeof entry === "string" ? entry : entry?.domain || "").trim().toLowerCase(),
+            includeSubdomains: typeof entry === "string" ? false : entry?.includeSubdomains === true,
+        }));
+        const invalidDomain = normalizedDomains.find((entry) => !DOMAIN_REGEX.test(entry.domain));
+        if (invalidDomain) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `Invalid domain: ${invalidDomain.domain || "(empty)"}`
+            );
+        }
+
+        const applicantEmail = contactEmail || auth.token.email;
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        if (!applicantEmail || !emailRegex.test(applicantEmail)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "A valid contact email is required"
+            );
+        }
+
+        // One open application per user
+        const pendingSnapshot = await admin.firestore()
+            .collection("organizations")
+            .where("applicantUid", "==", auth.uid)
+            .where("status", "==", "pending")
+            .limit(1)
+            .get();
+
+        if (!pendingSnapshot.empty) {
+            throw new functions.https.HttpsError(
+                "already-exists",
+                "You already have an organization application under review",
+                { organizationId: pendingSnapshot.docs[0].id }
+            );
+        }
+
+        const orgRef = await admin.firestore().collection("organizations").add({
+            name: name.trim(),
+            domains: normalizedDomains,
+            contactEmail: applicantEmail.toLowerCase(),
+            locale: resolveLocale(locale),
+            status: "pending",
+            approved: false,
+            adminUsers: [],
+            applicantUid: auth.uid,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+
+        logger.info("Organization application submitted", { organizationId: orgRef.id, applicantUid: auth.uid });
+
+        await writeAuditLog(request, {
+            action: "organization.apply",
+            targetType: "organization",
+            targetId: orgRef.id,
+            organizationId: orgRef.id,
+            after: { name: name.trim(), domains: normalizedDomains, status: "pending" },
+        });
+
+        return { success: true, organizationId: orgRef.id, status: "pending" };
+    } catch (error) {
+        logger.error("Error applying for organization:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to submit organization application"
+        );
+    }
+});
+
+/**
+ * Create organization admin and send credentials
+ * This function creates a user in Firebase Auth and sends login credentials to the admin
+ * Deprecated: use inviteOrgAdmin so passwords are never sent by email
+ */
+export const createOrgAdminAndSendCredentials = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<CreateOrgAdminData>) => {
+    try {
+        logger.info("Starting createOrgAdminAndSendCredentials process");
+        const { data } = request;
+
+        // Log request data (excluding password for security)
+        logger.info("Request data received:", {
+            email: data.email ? `${data.email.split("@")[0]}***@${data.email.split("@")[1]}` : undefined,
+            organizationId: data.organizationId,
+            organizationName: data.organizationName,
+            hasPassword: !!data.password
+        });
+
+        // Check if the caller is a super admin - ONLY super admins should be able to create organizations
+        const auth = requireSuperAdmin(
+            request.auth,
+            "Only super administrators can create organizations and organization admins"
+        );
+        logger.info(`Request from user: ${auth.token.email ? auth.token.email.split("@")[0] + '***' : 'unknown'}`);
+
+        logger.info("Caller verified as super admin");
+
+
+        // Validate required data
+        const { email, password, organizationId, organizationName, dashboardUrl, locale } = data;
+
+        if (!email || !password || !organizationId || !organizationName) {
+            logger.error("Missing required data", {
+                hasEmail: !!email,
+                hasPassword: !!password,
+                hasOrgId: !!organizationId,
+                hasOrgName: !!organizationName
+            });
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing required information"
+            );
+        }
+
+        // Validate email format
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        if (!emailRegex.test(email)) {
+            logger.error("Invalid email format");
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Invalid email format"
+            );
+        }
+
+        const adminDashboardUrl = resolveDashboardUrl(dashboardUrl);
+
+        // Replay the stored result when this is a retry of a request that already completed
+        let idempotencyRef: admin.firestore.DocumentReference | null = null;
+        if (data.idempotencyKey) {
+            const idempotent = await beginIdempotentRequest(
+                "createOrgAdminAndSendCredentials",
+                auth.uid,
+                data.idempotencyKey,
+                { email: email.toLowerCase(), organizationId, organizationName }
+            );
+            if (idempotent.replay) {
+                logger.info("Replaying completed request for idempotency key");
+                return idempotent.replay;
+            }
+            idempotencyRef = idempotent.ref;
+        }
+
+        let createdUid: string | null = null;
+        try {
+            logger.info("Checking if organization exists");
+            // Verify organization exists
+            const orgRef = admin.firestore().collection("organizations").doc(organizationId);
+            const orgDoc = await orgRef.get();
+
+            if (!orgDoc.exists) {
+                logger.error("Organization not found", { organizationId });
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "Organization not found"
+                );
+            }
+            logger.info("Organization exists", { organizationName });
+            const orgData = orgDoc.data() || {};
+
+            // Check if user already exists
+            logger.info("Checking if user already exists");
+            try {
+                const existingUser = await admin.auth().getUserByEmail(email);
+                if (existingUser) {
+                    logger.error("User already exists", { email: email.split("@")[0] + '***' });
+                    throw new functions.https.HttpsError(
+                        "already-exists",
+                        "A user with this email already exists"
+                    );
+                }
+            } catch (error: any) {
+                // We expect an error if the user doesn't exist, which is what we want
+                if (error.code !== 'auth/user-not-found') {
+                    logger.error("Unexpected error checking user existence", error);
+                    throw error;
+                }
+                logger.info("User does not exist yet, proceeding with creation");
+            }
+
+            // Create the user with Firebase Admin SDK
+            logger.info("Creating new user in Firebase Auth");
+            const userRecord = await admin.auth().createUser({
+                email: email,
+                password: password,
+                emailVerified: false,
+                disabled: false
+            });
+            createdUid = userRecord.uid;
+
+            logger.info("User created successfully", { uid: userRecord.uid });
+
+            // Create the orgAdmins record and add the admin to the organization together
+            logger.info("Creating orgAdmins record and updating organization");
+            await admin.firestore().runTransaction(async (transaction) => {
+                const currentOrg = await transaction.get(orgRef);
+                if (!currentOrg.exists) {
+                    throw new functions.https.HttpsError(
+                        "not-found",
+                        "Organization not found"
+                    );
+                }
+
+                transaction.set(admin.firestore().collection("orgAdmins").doc(userRecord.uid), {
+                    email,
+                    organizationId,
+                    organizationName,
+                    createdAt: admin.firestore.FieldValue.serverTimestamp()
+                });
+                transaction.update(orgRef, {
+                    adminUsers: admin.firestore.FieldValue.arrayUnion(userRecord.uid),
+                    // The first admin owns the organization until ownership is transferred
+                    ...(currentOrg.data()?.ownerUid ? {} : { ownerUid: userRecord.uid }),
+                    updatedAt: admin.firestore.FieldValue.serverTimestamp()
+                });
+            });
+            logger.info("orgAdmins record created and organization updated");
+
+            // Grant the orgAdmin role claim scoped to this organization
+            await setUserRole(userRecord.uid, "orgAdmin", organizationId, auth.uid);
+
+            await writeAuditLog(request, {
+                action: "orgAdmin.create",
+                targetType: "user",
+                targetId: userRecord.uid,
+                organizationId,
+                after: { email, organizationId, role: "orgAdmin" },
+            });
+
+            // From here the admin exists; email problems are reported rather than rolled back
+            let result: Record<string, unknown>;
+            let mailOptions: MailMessage | null = null;
+            if (!mailProvider.configured || !MAIL_FROM_ADDRESS) {
+                logger.error("Email configuration missing", {
+                    mailDriver: mailProvider.name,
+                    hasFromAddress: !!MAIL_FROM_ADDRESS
+                });
+
+                // Return partial success since we created the user but can't send email
+                result = {
+                    success: true,
+                    userId: userRecord.uid,
+                    emailQueued: false,
+                    emailError: "Email configuration missing"
+                };
+            } else {
+                // Send email with credentials
+                logger.info("Preparing to send email with credentials");
+                mailOptions = renderEmail("adminCredentials", email, {
+                    organizationName,
+                    email,
+                    password,
+                    dashboardUrl: adminDashboardUrl,
+                }, resolveLocale(locale, orgData.locale));
+
+                // Reserve the outbox ID so the stored result can reference the email
+                result = {
+                    success: true,
+                    userId: userRecord.uid,
+                    emailQueued: true,
+                    emailId: admin.firestore().collection("emailOutbox").doc().id
+                };
+            }
+
+            // Commit the result before queueing: if this fails the admin is rolled back,
+            // and an email carrying the discarded password must never go out
+            await completeIdempotentRequest(idempotencyRef, result);
+
+            if (mailOptions) {
+                try {
+                    logger.info("Queueing email", { to: email.split("@")[0] + '***' });
+                    await enqueueEmail("adminCredentials", mailOptions, {
+                        requestedBy: auth.uid,
+                        organizationId,
+                        emailId: result.emailId as string,
+                    });
+                    logger.info("Admin credentials email queued", { emailId: result.emailId });
+                } catch (emailError) {
+                    logger.error("Failed to queue email, but user was created:", emailError);
+
+                    // Still return success since the user was created
+                    result = {
+                        success: true,
+                        userId: userRecord.uid,
+                        emailQueued: false,
+                        emailError: emailError instanceof Error ? emailError.message : "Unknown email error"
+                    };
+                    try {
+                        await completeIdempotentRequest(idempotencyRef, result);
+                    } catch (idempotencyError) {
+                        logger.error("Failed to record email failure for idempotent replay", idempotencyError);
+                    }
+                }
+            }
+
+            // Return success
+            logger.info("Function completed successfully");
+            return result;
+        } catch (error) {
+            // Undo a partially created admin so a retry starts from a clean state
+            if (createdUid) {
+                await rollbackOrgAdminCreation(createdUid, organizationId);
+            }
+            await releaseIdempotentRequest(idempotencyRef);
+            throw error;
+        }
+    } catch (error) {
+        logger.error("Error in createOrgAdminAndSendCredentials:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to create admin and send credentials"
+        );
+    }
+});
+
+/**
+ * Grant role
+ * This function lets super admins assign superAdmin, orgAdmin or member roles
+ */
+export const grantRole = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<GrantRoleData>) => {
+    try {
+        const { data } = request;
+        const auth = requireSuperAdmin(request.auth, "Only super administrators can grant roles");
+
+        if (!ROLES.includes(data.role)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `Role must be one of: ${ROLES.join(", ")}`
+            );
+        }
+
+        // Org admins are always scoped to an existing organization
+        let organizationId: string | null = null;
+        if (data.role === "orgAdmin") {
+            if (!data.organizationId) {
+                throw new functions.https.HttpsError(
+                    "invalid-argument",
+                    "Organization ID is required for the orgAdmin role"
+                );
+            }
+
+            const orgDoc = await admin.firestore().collection("organizations").doc(data.organizationId).get();
+            if (!orgDoc.exists) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "Organization not found"
+                );
+            }
+            organizationId = data.organizationId;
+        }
+
+        const userRecord = await getRoleTarget(data);
+        const previous = await setUserRole(userRecord.uid, data.role, organizationId, auth.uid);
+
+        await writeAuditLog(request, {
+            action: "role.grant",
+            targetType: "user",
+            targetId: userRecord.uid,
+            organizationId: organizationId ?? previous.organizationId,
+            before: previous,
+            after: { role: data.role, organizationId },
+        });
+
+        return { success: true, uid: userRecord.uid, role: data.role, organizationId };
+    } catch (error) {
+        logger.error("Error granting role:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to grant role"
+        );
+    }
+});
+
+/**
+ * Revoke role
+ * This function lets super admins return a user to the member role
+ */
+export const revokeRole = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<RevokeRoleData>) => {
+    try {
+        const { data } = request;
+        const auth = requireSuperAdmin(request.auth, "Only super administrators can revoke roles");
+
+        const userRecord = await getRoleTarget(data);
+        const previous = await setUserRole(userRecord.uid, "member", null, auth.uid);
+
+        await writeAuditLog(request, {
+            action: "role.revoke",
+            targetType: "user",
+            targetId: userRecord.uid,
+            organizationId: previous.organizationId,
+            before: previous,
+            after: { role: "member", organizationId: null },
+        });
+
+        return { success: true, uid: userRecord.uid, role: "member" };
+    } catch (error) {
+        logger.error("Error revoking role:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to revoke role"
+        );
+    }
+});
+
+/**
+ * Bootstrap super admin
+ * This function grants the first super admin to the verified SUPER_ADMIN_EMAIL account; it does nothing once one exists
+ */
+export const bootstrapSuperAdmin = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<void>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const superAdminEmail = getConfig("SUPER_ADMIN_EMAIL").toLowerCase();
+
+        if (!superAdminEmail || auth.token.email?.toLowerCase() !== superAdminEmail || !auth.token.email_verified) {
+            throw new functions.https.HttpsError(
+                "permission-denied",
+                "Only the configured super administrator can bootstrap roles"
+            );
+        }
+
+        const existing = await admin.firestore()
+            .collection("userRoles")
+            .where("role", "==", "superAdmin")
+            .limit(1)
+            .get();
+
+        if (!existing.empty) {
+            throw new functions.https.HttpsError(
+                "failed-precondition",
+                "A super administrator already exists"
+            );
+        }
+
+        const previous = await setUserRole(auth.uid, "superAdmin", null, auth.uid);
+
+        await writeAuditLog(request, {
+            action: "role.bootstrap",
+            targetType: "user",
+            targetId: auth.uid,
+            before: previous,
+            after: { role: "superAdmin", organizationId: null },
+        });
+
+        return { success: true, uid: auth.uid, role: "superAdmin" };
+    } catch (error) {
+        logger.error("Error bootstrapping super admin:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to bootstrap super admin"
+        );
+    }
+});
+
+/**
+ * Backfill org admin roles
+ * This function grants the orgAdmin claim to existing orgAdmins records created before roles were claims
+ */
+export const backfillOrgAdminRoles = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<void>) => {
+    try {
+        const auth = requireSuperAdmin(request.auth, "Only super administrators can backfill roles");
+
+        const adminsSnapshot = await admin.firestore().collection("orgAdmins").get();
+        let updated = 0;
+        const failed: string[] = [];
+
+        for (const adminDoc of adminsSnapshot.docs) {
+            const roleDoc = await admin.firestore().collection("userRoles").doc(adminDoc.id).get();
+            if (roleDoc.exists) {
+                continue;
+            }
+
+            try {
+                await setUserRole(adminDoc.id, "orgAdmin", adminDoc.data().organizationId, auth.uid);
+                updated++;
+            } catch (error) {
+                logger.error("Failed to backfill org admin role", { uid: adminDoc.id, error });
+                failed.push(adminDoc.id);
+            }
+        }
+
+        await writeAuditLog(request, {
+            action: "role.backfill",
+            targetType: "orgAdmins",
+            targetId: null,
+            after: { updated, failed },
+        });
+
+        return { success: true, updated, failed };
+    } catch (error) {
+        logger.error("Error backfilling org admin roles:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to backfill org admin roles"
+        );
+    }
+});
+
+/**
+ * Backfill organization owners
+ * This function makes the longest-serving admin the owner of each organization created before owners were recorded
+ */
+export const backfillOrganizationOwners = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<void>) => {
+    try {
+        requireSuperAdmin(request.auth, "Only super administrators can backfill organization owners");
+
+        const orgsSnapshot = await admin.firestore().collection("organizations").get();
+        let updated = 0;
+        const failed: string[] = [];
+
+        for (const orgDoc of orgsSnapshot.docs) {
+            if (orgDoc.data().ownerUid) {
+                continue;
+            }
+
+            try {
+                const adminsSnapshot = await admin.firestore()
+                    .collection("orgAdmins")
+                    .where("organizationId", "==", orgDoc.id)
+                    .get();
+                const [firstAdmin] = adminsSnapshot.docs.sort((a, b) =>
+                    (a.data().createdAt?.toMillis() ?? 0) - (b.data().createdAt?.toMillis() ?? 0));
+                if (!firstAdmin) {
+                    continue;
+                }
+
+                // Re-check inside a transaction so an owner set in the meantime is kept
+                const assigned = await admin.firestore().runTransaction(async (transaction) => {
+                    const currentOrg = await transaction.get(orgDoc.ref);
+                    if (!currentOrg.exists || currentOrg.data()?.ownerUid) {
+                        return false;
+                    }
+                    transaction.update(orgDoc.ref, {
+                        ownerUid: firstAdmin.id,
+                        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+                    });
+                    return true;
+                });
+                if (assigned) {
+                    updated++;
+                }
+            } catch (error) {
+                logger.error("Failed to backfill organization owner", { organizationId: orgDoc.id, error });
+                failed.push(orgDoc.id);
+            }
+        }
+
+        await writeAuditLog(request, {
+            action: "organization.ownerBackfill",
+            targetType: "organizations",
+            targetId: null,
+            after: { updated, failed },
+        });
+
+        return { success: true, updated, failed };
+    } catch (error) {
+        logger.error("Error backfilling organization owners:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to backfill organization owners"
+        );
+    }
+});
+
+/**
+ * Invite organization admin
+ * This function emails a single-use, expiring invitation so the new admin can choose their own password
+ */
+export const inviteOrgAdmin = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<InviteOrgAdminData>) => {
+    try {
+        const { data } = request;
+        const auth = requireSuperAdmin(request.auth, "Only super administrators can invite organization admins");
+
+        const { email, organizationId, locale } = data;
+
+        if (!email || !organizationId) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Email and organization ID are required"
+            );
+        }
+
+        // Validate email format
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        if (!emailRegex.test(email)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Invalid email format"
+            );
+        }
+
+        const orgDoc = await admin.firestore().collection("organizations").doc(organizationId).get();
+        if (!orgDoc.exists) {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "Organization not found"
+            );
+        }
+        const orgData = orgDoc.data() || {};
+
+        const { inviteId, emailId } = await createAdminInvite({
+            email,
+            organizationId,
+            organizationName: orgData.name,
+            locale: resolveLocale(locale, orgData.locale),
+        }, auth.uid);
+
+        await writeAuditLog(request, {
+            action: "invite.create",
+            targetType: "adminInvite",
+            targetId: inviteId,
+            organizationId,
+            after: { email: email.toLowerCase(), status: "pending" },
+        });
+
+        return { success: true, inviteId, emailId };
+    } catch (error) {
+        logger.error("Error inviting org admin:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to invite organization admin"
+        );
+    }
+});
+
+/**
+ * Accept admin invite
+ * This function gives an invitee org admin access, creating their account with the given password,
+ * or linking their existing account when they are signed in to it
+ */
+export const acceptAdminInvite = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<AcceptAdminInviteData>) => {
+    try {
+        const { inviteId, token, password } = request.data;
+
+        if (!inviteId || !token) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Invite and token are required"
+            );
+        }
+
+        if (password && password.length < MIN_PASSWORD_LENGTH) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+            );
+        }
+
+        // Consume the invite in a transaction so the token can only be used once
+        const inviteRef = admin.firestore().collection("adminInvites").doc(inviteId);
+        const { invite, existingUser } = await admin.firestore().runTransaction(async (transaction) => {
+            const inviteDoc = await transaction.get(inviteRef);
+            const inviteData = inviteDoc.data() as AdminInvite | undefined;
+
+            const expected = Buffer.from(inviteData?.tokenHash || "", "hex");
+            const actual = Buffer.from(hashInviteToken(token), "hex");
+            if (!inviteData || inviteData.status !== "pending" ||
+                expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "This invitation is invalid or has already been used"
+                );
+            }
+
+            if (inviteData.expiresAt.toMillis() < Date.now()) {
+                throw new functions.https.HttpsError(
+                    "deadline-exceeded",
+                    "This invitation has expired. Please ask for a new one."
+                );
+            }
+
+            const orgDoc = await transaction.get(
+                admin.firestore().collection("organizations").doc(inviteData.organizationId)
+            );
+            if (!orgDoc.exists) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "Organization not found"
+                );
+            }
+            assertOrganizationApproved(orgDoc.data() || {}, "This organization is not accepting new admins");
+
+            // An existing account is linked rather than replaced, but only by someone signed in to it
+            let account: admin.auth.UserRecord | null = null;
+            try {
+                account = await admin.auth().getUserByEmail(inviteData.email);
+            } catch (error: any) {
+                if (error.code !== "auth/user-not-found") {
+                    throw error;
+                }
+            }
+            if (account) {
+                if (request.auth?.uid !== account.uid) {
+                    throw new functions.https.HttpsError(
+                        "failed-precondition",
+                        "An account already exists for this email. Sign in to it and open the invitation again.",
+                        { reason: "sign-in-required" }
+                    );
+                }
+                const currentRole = account.customClaims?.role;
+                if (currentRole === "orgAdmin" || currentRole === "superAdmin") {
+                    throw new functions.https.HttpsError(
+                        "failed-precondition",
+                        "This account is already an administrator"
+                    );
+                }
+            } else if (!password) {
+                throw new functions.https.HttpsError(
+                    "invalid-argument",
+                    "A password is required to create your account"
+                );
+            }
+
+            transaction.update(inviteRef, {
+                status: "accepted",
+                acceptedAt: admin.firestore.FieldValue.serverTimestamp(),
+                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+            return { invite: inviteData, existingUser: account };
+        });
+
+        const reopenInvite = () => inviteRef.update({
+            status: "pending",
+            acceptedAt: null,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        // Create the account unless one is being linked; reopen the invite if that fails so it can be retried
+        let userRecord: admin.auth.UserRecord;
+        try {
+            userRecord = existingUser ?? await admin.auth().createUser({
+                email: invite.email,
+                password,
+                // Following the emailed link proves the invitee owns the address
+                emailVerified: true,
+                disabled: false
+            });
+        } catch (error: any) {
+            await reopenInvite();
+            if (error.code === "auth/email-already-exists") {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "An account already exists for this email. Sign in to it and open the invitation again.",
+                    { reason: "sign-in-required" }
+                );
+            }
+            if (error.code === "auth/invalid-password") {
+                throw new functions.https.HttpsError(
+                    "invalid-argument",
+                    error.message
+                );
+            }
+            throw error;
+        }
+
+        try {
+            // Create the orgAdmins record and add the admin to the organization together
+            const orgRef = admin.firestore().collection("organizations").doc(invite.organizationId);
+            await admin.firestore().runTransaction(async (transaction) => {
+                const currentOrg = await transaction.get(orgRef);
+                if (!currentOrg.exists) {
+                    throw new functions.https.HttpsError(
+                        "not-found",
+                        "Organization not found"
+                    );
+                }
+                assertOrganizationApproved(currentOrg.data() || {}, "This organization is not accepting new admins");
+
+                transaction.set(admin.firestore().collection("orgAdmins").doc(userRecord.uid), {
+                    email: invite.email,
+                    organizationId: invite.organizationId,
+                    organizationName: invite.organizationName,
+                    createdAt: admin.firestore.FieldValue.serverTimestamp()
+                });
+                transaction.update(orgRef, {
+                    adminUsers: admin.firestore.FieldValue.arrayUnion(userRecord.uid),
+                    // The first admin owns the organization until ownership is transferred
+                    ...(currentOrg.data()?.ownerUid ? {} : { ownerUid: userRecord.uid }),
+                    updatedAt: admin.firestore.FieldValue.serverTimestamp()
+                });
+            });
+
+            await setUserRole(userRecord.uid, "orgAdmin", invite.organizationId, invite.invitedBy);
+
+            await inviteRef.update({ acceptedUid: userRecord.uid });
+        } catch (error) {
+            // Undo the partial admin access (and any new account) and reopen the invite so the invitee can simply try again
+            await rollbackOrgAdminCreation(userRecord.uid, invite.organizationId, { keepAccount: !!existingUser });
+            try {
+                await reopenInvite();
+            } catch (reopenError) {
+                logger.error("Failed to reopen admin invite", { inviteId, error: reopenError });
+            }
+            throw error;
+        }
+        logger.info("Admin invite accepted", { inviteId, uid: userRecord.uid });
+
+        await writeAuditLog(request, {
+            action: "invite.accept",
+            targetType: "adminInvite",
+            targetId: inviteId,
+            organizationId: invite.organizationId,
+            actor: { uid: userRecord.uid, email: invite.email },
+            before: { status: "pending" },
+            after: { status: "accepted", acceptedUid: userRecord.uid, linkedExistingAccount: !!existingUser },
+        });
+
+        return {
+            success: true,
+            userId: userRecord.uid,
+            organizationId: invite.organizationId,
+            linkedExistingAccount: !!existingUser,
+        };
+    } catch (error) {
+        logger.error("Error accepting admin invite:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to accept invitation"
+        );
+    }
+});
+
+/**
+ * List admin invites
+ * This function lets super admins review invitations, optionally filtered by organization or status
+ */
+export const listAdminInvites = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<ListAdminInvitesData>) => {
+    try {
+        const { data } = request;
+        requireSuperAdmin(request.auth, "Only super administrators can list invitations");
+
+        let query: admin.firestore.Query = admin.firestore().collection("adminInvites");
+        if (data.organizationId) {
+            query = query.where("organizationId", "==", data.organizationId);
+        }
+        if (data.status) {
+            query = query.where("status", "==", data.status);
+        }
+
+        const snapshot = await query.limit(200).get();
+
+        return { success: true, invites: snapshot.docs.map(toInviteSummary) };
+    } catch (error) {
+        logger.error("Error listing admin invites:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to list invitations"
+        );
+    }
+});
+
+/**
+ * Resend admin invite
+ * This function issues a fresh token and expiry for a pending invite and emails it again
+ */
+export const resendAdminInvite = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<AdminInviteData>) => {
+    try {
+        const { data } = request;
+        const auth = requireSuperAdmin(request.auth, "Only super administrators can resend invitations");
+
+        if (!data.inviteId) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing invite ID"
+            );
+        }
+
+        // Rotating the token invalidates the link in any earlier email
+        const inviteRef = admin.firestore().collection("adminInvites").doc(data.inviteId);
+        const { token, fields } = issueInviteToken();
+        const invite = await admin.firestore().runTransaction(async (transaction) => {
+            const inviteDoc = await transaction.get(inviteRef);
+            const inviteData = inviteDoc.data() as AdminInvite | undefined;
+
+            if (!inviteData) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "Invitation not found"
+                );
+            }
+
+            if (inviteData.status !== "pending") {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    `Invitation has already been ${inviteData.status}`
+                );
+            }
+
+            transaction.update(inviteRef, {
+                ...fields,
+                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+            return inviteData;
+        });
+
+        const emailId = await sendInviteEmail(inviteRef.id, invite, token, auth.uid);
+        await inviteRef.update({ emailId });
+        logger.info("Admin invite resent", { inviteId: inviteRef.id });
+
+        await writeAuditLog(request, {
+            action: "invite.resend",
+            targetType: "adminInvite",
+            targetId: inviteRef.id,
+            organizationId: invite.organizationId,
+            before: { expiresAt: invite.expiresAt.toMillis() },
+            after: { expiresAt: fields.expiresAt.toMillis() },
+        });
+
+        return { success: true, inviteId: inviteRef.id, emailId };
+    } catch (error) {
+        logger.error("Error resending admin invite:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to resend invitation"
+        );
+    }
+});
+
+/**
+ * Revoke admin invite
+ * This function cancels a pending invite so its link can no longer be used
+ */
+export const revokeAdminInvite = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<AdminInviteData>) => {
+    try {
+        const { data } = request;
+        const auth = requireSuperAdmin(request.auth, "Only super administrators can revoke invitations");
+
+        if (!data.inviteId) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing invite ID"
+            );
+        }
+
+        const inviteRef = admin.firestore().collection("adminInvites").doc(data.inviteId);
+        const invite = await admin.firestore().runTransaction(async (transaction) => {
+            const inviteDoc = await transaction.get(inviteRef);
+            const inviteData = inviteDoc.data() as AdminInvite | undefined;
+
+            if (!inviteData) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "Invitation not found"
+                );
+            }
+
+            if (inviteData.status !== "pending") {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    `Invitation has already been ${inviteData.status}`
+                );
+            }
+
+            transaction.update(inviteRef, {
+                status: "revoked",
+                revokedBy: auth.uid,
+                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+            return inviteData;
+        });
+        logger.info("Admin invite revoked", { inviteId: inviteRef.id });
+
+        await writeAuditLog(request, {
+            action: "invite.revoke",
+            targetType: "adminInvite",
+            targetId: inviteRef.id,
+            organizationId: invite.organizationId,
+            before: { status: "pending" },
+            after: { status: "revoked" },
+        });
+
+        return { success: true };
+    } catch (error) {
+        logger.error("Error revoking admin invite:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to revoke invitation"
+        );
+    }
+});
+
+/**
+ * List organization admins
+ * This function returns an organization's admins with their account status and the current owner
+ */
+export const listOrgAdmins = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<OrgAdminsData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const { data: orgData } = await getManagedOrganization(auth, request.data.organizationId);
+
+        const adminsSnapshot = await admin.firestore()
+            .collection("orgAdmins")
+            .where("organizationId", "==", request.data.organizationId)
+            .get();
+
+        // Look up Auth records in batches of 100 (the getUsers limit)
+        const userRecords = new Map<string, admin.auth.UserRecord>();
+        for (let i = 0; i < adminsSnapshot.docs.length; i += 100) {
+            const result = await admin.auth().getUsers(
+                adminsSnapshot.docs.slice(i, i + 100).map((adminDoc) => ({ uid: adminDoc.id }))
+            );
+            result.users.forEach((userRecord) => userRecords.set(userRecord.uid, userRecord));
+        }
+
+        const admins = adminsSnapshot.docs.map((adminDoc) => {
+            const adminData = adminDoc.data();
+            const userRecord = userRecords.get(adminDoc.id);
+            return {
+                uid: adminDoc.id,
+                email: adminData.email,
+                isOwner: orgData.ownerUid === adminDoc.id,
+                disabled: userRecord ? userRecord.disabled : null,
+                lastSignInAt: userRecord?.metadata.lastSignInTime ?? null,
+                createdAt: adminData.createdAt ? adminData.createdAt.toMillis() : null,
+            };
+        });
+
+        return { success: true, ownerUid: orgData.ownerUid ?? null, admins };
+    } catch (error) {
+        logger.error("Error listing org admins:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to list organization admins"
+        );
+    }
+});
+
+/**
+ * Remove organization admin
+ * This function removes an admin from an organization and optionally disables their account
+ */
+export const removeOrgAdmin = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<RemoveOrgAdminData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const { organizationId, uid, disableUser } = request.data;
+
+        if (!uid) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing admin user ID"
+            );
+        }
+
+        // Remove the orgAdmins record, adminUsers entry and role assignment together
+        const roleRef = admin.firestore().collection("userRoles").doc(uid);
+        const downgraded = await admin.firestore().runTransaction(async (transaction) => {
+            const { ref: orgRef, data: orgData } = await getManagedOrganization(auth, organizationId, transaction);
+            const adminRef = admin.firestore().collection("orgAdmins").doc(uid);
+            const adminDoc = await transaction.get(adminRef);
+            const roleDoc = await transaction.get(roleRef);
+
+            if (!adminDoc.exists || adminDoc.data()?.organizationId !== organizationId) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "This user is not an admin of the organization"
+                );
+            }
+
+            if (orgData.ownerUid === uid) {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "Transfer ownership before removing the organization owner"
+                );
+            }
+
+            transaction.delete(adminRef);
+            transaction.update(orgRef, {
+                adminUsers: admin.firestore.FieldValue.arrayRemove(uid),
+                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+
+            // Drop the orgAdmin role, keeping a super admin's role intact
+            if (roleDoc.data()?.role !== "orgAdmin") {
+                return false;
+            }
+            transaction.update(roleRef, {
+                role: "member",
+                organizationId: null,
+                claimsSynced: false,
+                updatedBy: auth.uid,
+                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+            return true;
+        });
+
+        // The claims live in Auth, outside the transaction; if they can't be updated now,
+        // the record stays claimsSynced: false and repairRoleClaims applies it later
+        let claimsUpdated = !downgraded;
+        for (let attempt = 1; !claimsUpdated && attempt <= 3; attempt++) {
+            try {
+                await applyRoleClaims(uid, "member", null);
+                claimsUpdated = true;
+            } catch (error) {
+                logger.error("Failed to update removed admin's claims", { uid, attempt, error });
+            }
+        }
+
+        if (disableUser) {
+            await admin.auth().updateUser(uid, { disabled: true });
+        }
+        // Always end the removed admin's sessions so their current token stops granting access
+        await admin.auth().revokeRefreshTokens(uid);
+
+        logger.info("Org admin removed", { organizationId, uid, disabled: !!disableUser, claimsUpdated });
+
+        await writeAuditLog(request, {
+            action: "orgAdmin.remove",
+            targetType: "user",
+            targetId: uid,
+            organizationId,
+            before: { organizationId, role: "orgAdmin" },
+            after: { organizationId: null, disabled: !!disableUser },
+        });
+
+        return { success: true };
+    } catch (error) {
+        logger.error("Error removing org admin:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to remove organization admin"
+        );
+    }
+});
+
+/**
+ * Transfer organization ownership
+ * This function designates an existing admin as the organization's primary owner
+ */
+export const transferOrgOwnership = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<TransferOrgOwnershipData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const { organizationId, uid } = request.data;
+
+        if (!uid) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing new owner user ID"
+            );
+        }
+
+        const previousOwnerUid = await admin.firestore().runTransaction(async (transaction) => {
+            const { ref: orgRef, data: orgData } = await getManagedOrganization(auth, organizationId, transaction);
+            const adminDoc = await transaction.get(admin.firestore().collection("orgAdmins").doc(uid));
+
+            if (!adminDoc.exists || adminDoc.data()?.organizationId !== organizationId) {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "The new owner must already be an admin of the organization"
+                );
+            }
+
+            transaction.update(orgRef, {
+                ownerUid: uid,
+                ownerUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+            return (orgData.ownerUid as string | undefined) ?? null;
+        });
+
+        logger.info("Organization ownership transferred", { organizationId, previousOwnerUid, ownerUid: uid });
+
+        await writeAuditLog(request, {
+            action: "organization.transferOwnership",
+            targetType: "organization",
+            targetId: organizationId,
+            organizationId,
+            before: { ownerUid: previousOwnerUid },
+            after: { ownerUid: uid },
+        });
+
+        return { success: true, ownerUid: uid, previousOwnerUid };
+    } catch (error) {
+        logger.error("Error transferring org ownership:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to transfer organization ownership"
+        );
+    }
+});
+
+/**
+ * Query audit logs
+ * This function pages through audit logs; org admins only see entries for their own organization
+ */
+export const queryAuditLogs = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<QueryAuditLogsData>) => {
+    try {
+        const { data } = request;
+        const auth = requireOrgAdmin(request.auth, null, "Only administrators can view audit logs");
+
+        // Org admins are pinned to their own organization; without one they can't be scoped at all
+        const organizationId = isSuperAdmin(auth) ? data.organizationId : auth.token.organizationId;
+        if (!isSuperAdmin(auth) && !organizationId) {
+            throw new functions.https.HttpsError(
+                "permission-denied",
+                "Your account is not linked to an organization"
+            );
+        }
+        if (!isSuperAdmin(auth) && data.organizationId && data.organizationId !== organizationId) {
+            throw new functions.https.HttpsError(
+                "permission-denied",
+                "You can only view audit logs for your own organization"
+            );
+        }
+
+        const limit = Math.min(Math.max(data.limit || 50, 1), 200);
+        let query: admin.firestore.Query = admin.firestore().collection("auditLogs");
+        if (organizationId) {
+            query = query.where("organizationId", "==", organizationId);
+        }
+        if (data.action) {
+            query = query.where("action", "==", data.action);
+        }
+        if (data.actorUid) {
+            query = query.where("actorUid", "==", data.actorUid);
+        }
+        if (data.targetId) {
+            query = query.where("targetId", "==", data.targetId);
+        }
+        if (data.from) {
+            query = query.where("createdAt", ">=", admin.firestore.Timestamp.fromMillis(data.from));
+        }
+        if (data.to) {
+            query = query.where("createdAt", "<=", admin.firestore.Timestamp.fromMillis(data.to));
+        }
+        query = query.orderBy("createdAt", "desc").limit(limit);
+
+        if (data.startAfter) {
+            const cursorDoc = await admin.firestore().collection("auditLogs").doc(data.startAfter).get();
+            if (!cursorDoc.exists) {
+                throw new functions.https.HttpsError(
+                    "invalid-argument",
+                    "Invalid pagination cursor"
+                );
+            }
+            query = query.startAfter(cursorDoc);
+        }
+
+        const snapshot = await query.get();
+        const entries = snapshot.docs.map((logDoc) => toAuditLogEntry(logDoc, isSuperAdmin(auth)));
+
+        return {
+            success: true,
+            entries,
+            nextCursor: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+        };
+    } catch (error) {
+        logger.error("Error querying audit logs:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to query audit logs"
+        );
+    }
+});
+
+/**
+ * Start bulk import
+ * This function validates CSV or JSON organization rows and queues a background import job
+ * With dryRun (or when any row is invalid) only the validation report is returned
+ */
+export const startBulkImport = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<StartBulkImportData>) => {
+    try {
+        const auth = requireSuperAdmin(request.auth, "Only super administrators can bulk import organizations");
+        const { format, content, dryRun } = request.data;
+
+        let records: Array<Record<string, unknown>>;
+        try {
+            records = readImportRecords(format, content);
+        } catch (error) {
+            if (error instanceof functions.https.HttpsError) {
+                throw error;
+            }
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `Could not parse ${format} content`
+            );
+        }
+
+        const { rows, rowNumbers, errors } = validateImportRecords(records);
+        // Rows that would duplicate existing organizations, domains or admins are errors too,
+        // unless the whole file was rejected (e.g. too many rows)
+        const conflicts = errors.some((entry) => entry.row === 0) ? [] :
+            await findImportConflicts(rows.map((row, index) => ({ rowNumber: rowNumbers[index], row })));
+        errors.push(...conflicts);
+        errors.sort((a, b) => a.row - b.row);
+        const report = {
+            totalRows: records.length,
+            validRows: rows.length - conflicts.length,
+            invalidRows: errors.filter((entry) => entry.row > 0).length,
+            errors,
+        };
+
+        if (dryRun || errors.length) {
+            return { success: errors.length === 0, dryRun: dryRun === true, jobId: null, report };
+        }
+
+        // Rows are stored on the job and provisioned by processBulkImport
+        const jobRef = admin.firestore().collection("bulkImports").doc();
+        await jobRef.set({
+            status: "queued",
+            format,
+            rows,
+            totalRows: rows.length,
+            processedRows: 0,
+            succeededRows: 0,
+            failedRows: 0,
+            results: [],
+            requestedBy: auth.uid,
+            leaseExpiresAt: null,
+            recoveries: 0,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            startedAt: null,
+            completedAt: null,
+            error: null
+        });
+
+        logger.info("Bulk import queued", { jobId: jobRef.id, rows: rows.length });
+
+        await writeAuditLog(request, {
+            action: "bulkImport.start",
+            targetType: "bulkImport",
+            targetId: jobRef.id,
+            after: { format, totalRows: rows.length },
+        });
+
+        return { success: true, dryRun: false, jobId: jobRef.id, report };
+    } catch (error) {
+        logger.error("Error starting bulk import:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to start bulk import"
+        );
+    }
+});
+
+/**
+ * Process bulk import
+ * This function provisions the rows of a queued import job in time-boxed chunks, resuming from
+ * processedRows; a chunk that runs out of time puts the job back in the queue, which triggers the next one
+ */
+export const processBulkImport = functions.firestore.onDocumentWritten({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com",
+    document: "bulkImports/{jobId}",
+    region: "us-central1",
+    timeoutSeconds: 540,
+}, async (event) => {
+    if (!event.data) {
+        logger.error("Event data is undefined");
+        return;
+    }
+
+    // Only act when the job (re-)enters the queue
+    if (event.data.after.data()?.status !== "queued" || event.data.before.data()?.status === "queued") {
+        return;
+    }
+
+    const jobRef = event.data.after.ref;
+    const deadline = Date.now() + BULK_IMPORT_CHUNK_SECONDS * 1000;
+
+    try {
+        // Claim the job under a lease so a redelivered event does not provision rows twice
+        const job = await admin.firestore().runTransaction(async (transaction) => {
+            const jobDoc = await transaction.get(jobRef);
+            if (!jobDoc.exists || jobDoc.data()?.status !== "queued") {
+                return null;
+            }
+            transaction.update(jobRef, {
+                status: "running",
+                leaseExpiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + BULK_IMPORT_LEASE_SECONDS * 1000),
+                startedAt: jobDoc.data()?.startedAt ?? admin.firestore.FieldValue.serverTimestamp()
+            });
+            return jobDoc.data() as {
+                rows: BulkImportRow[],
+                requestedBy: string,
+                processedRows: number,
+                failedRows: number
+            };
+        });
+
+        if (!job) {
+            logger.info("Bulk import already claimed", { jobId: jobRef.id });
+            return;
+        }
+
+        let processedRows = job.processedRows || 0;
+        let failedRows = job.failedRows || 0;
+        while (processedRows < job.rows.length && Date.now() < deadline) {
+            const result = await processBulkImportRow(jobRef.id, job.rows[processedRows], processedRows + 1, job.requestedBy);
+            if (result.status === "failed") {
+                failedRows++;
+            }
+            processedRows++;
+            await jobRef.update({
+                processedRows,
+                succeededRows: admin.firestore.FieldValue.increment(result.status === "created" ? 1 : 0),
+                failedRows: admin.firestore.FieldValue.increment(result.status === "failed" ? 1 : 0),
+                results: admin.firestore.FieldValue.arrayUnion(result)
+            });
+        }
+
+        if (processedRows < job.rows.length) {
+            await jobRef.update({ status: "queued", leaseExpiresAt: null });
+            logger.info("Bulk import chunk finished, requeued", { jobId: jobRef.id, processedRows });
+            return;
+        }
+
+        await jobRef.update({
+            status: failedRows === job.rows.length && failedRows > 0 ? "failed" : "completed",
+            leaseExpiresAt: null,
+            completedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+
+        logger.info("Bulk import completed", { jobId: jobRef.id, rows: job.rows.length, failedRows });
+    } catch (error) {
+        logger.error("Error processing bulk import:", error);
+        await jobRef.update({
+            status: "failed",
+            error: error instanceof Error ? error.message : "Failed to process bulk import",
+            leaseExpiresAt: null,
+            completedAt: admin.firestore.FieldValue.serverTimestamp()
+        }).catch((updateError) => logger.error("Error marking bulk import failed:", updateError));
+    }
+});
+
+/**
+ * Recover stalled bulk imports
+ * This scheduled job requeues running import jobs whose chunk lease expired (for example after a timeout),
+ * so they resume from processedRows, and marks them failed once they have stalled too many times
+ */
+export const recoverStalledBulkImports = functions.scheduler.onSchedule({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com",
+    schedule: "every 10 minutes",
+    region: "us-central1",
+}, async () => {
+    const stalledSnapshot = await admin.firestore()
+        .collection("bulkImports")
+        .where("status", "==", "running")
+        .where("leaseExpiresAt", "<=", admin.firestore.Timestamp.now())
+        .limit(50)
+        .get();
+
+    for (const jobDoc of stalledSnapshot.docs) {
+        const recoveries = (jobDoc.data().recoveries || 0) + 1;
+        try {
+            if (recoveries > BULK_IMPORT_MAX_RECOVERIES) {
+                await jobDoc.ref.update({
+                    status: "failed",
+                    error: "The import stopped responding and was abandoned",
+                    leaseExpiresAt: null,
+                    completedAt: admin.firestore.FieldValue.serverTimestamp()
+                });
+                logger.error("Bulk import abandoned", { jobId: jobDoc.id, processedRows: jobDoc.data().processedRows });
+            } else {
+                await jobDoc.ref.update({ status: "queued", leaseExpiresAt: null, recoveries });
+                logger.warn("Bulk import stalled, requeued", { jobId: jobDoc.id, recoveries });
+            }
+        } catch (error) {
+            logger.error("Error recovering bulk import:", { jobId: jobDoc.id, error });
+        }
+    }
+});
+
+/**
+ * Get bulk import status
+ * This function returns the progress counters of an import job
+ */
+export const getBulkImportStatus = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<BulkImportJobData>) => {
+    try {
+        requireSuperAdmin(request.auth, "Only super administrators can view bulk imports");
+
+        if (!request.data.jobId) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing job ID"
+            );
+        }
+
+        const jobDoc = await admin.firestore().collection("bulkImports").doc(request.data.jobId).get();
+        if (!jobDoc.exists) {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "Bulk import not found"
+            );
+        }
+
+        const job = jobDoc.data()!;
+        return {
+            success: true,
+            job: {
+                jobId: jobDoc.id,
+                status: job.status,
+                totalRows: job.totalRows,
+                processedRows: job.processedRows,
+                succeededRows: job.succeededRows,
+                failedRows: job.failedRows,
+                error: job.error ?? null,
+                createdAt: job.createdAt?.toDate().toISOString() ?? null,
+                startedAt: job.startedAt?.toDate().toISOString() ?? null,
+                completedAt: job.completedAt?.toDate().toISOString() ?? null,
+            },
+        };
+    } catch (error) {
+        logger.error("Error getting bulk import status:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to get bulk import status"
+        );
+    }
+});
+
+/**
+ * Get bulk import results
+ * This function returns the per-row results of a finished import job as JSON or CSV
+ */
+export const getBulkImportResults = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<BulkImportJobData>) => {
+    try {
+        requireSuperAdmin(request.auth, "Only super administrators can view bulk imports");
+        const { jobId, format = "json" } = request.data;
+
+        if (!jobId) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing job ID"
+            );
+        }
+
+        const jobDoc = await admin.firestore().collection("bulkImports").doc(jobId).get();
+        if (!jobDoc.exists) {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "Bulk import not found"
+            );
+        }
+
+        const job = jobDoc.data()!;
+        if (job.status === "queued" || job.status === "running") {
+            throw new functions.https.HttpsError(
+                "failed-precondition",
+                "Bulk import is still in progress"
+            );
+        }
+
+        // arrayUnion does not keep row order
+        const results = ((job.results || []) as BulkImportRowResult[]).sort((a, b) => a.row - b.row);
+
+        if (format === "csv") {
+            const header = ["row", "organizationName", "status", "organizationId", "inviteIds", "error"];
+            const lines = results.map((result) => [
+                result.row,
+                result.organizationName,
+                result.status,
+                result.organizationId,
+                result.inviteIds.join(";"),
+                result.error,
+            ].map(toCsvCell).join(","));
+            return { success: true, format, content: [header.join(","), ...lines].join("\n") };
+        }
+
+        return { success: true, format: "json", results };
+    } catch (error) {
+        logger.error("Error getting bulk import results:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to get bulk import results"
+        );
+    }
+});
+
+/**
+ * Preview email template
+ * This function renders any registered email template with sample data for super admins
+ */
+export const previewEmailTemplate = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<PreviewEmailTemplateData>) => {
+    try {
+        const { data } = request;
+
+        // Check if the caller is a super admin
+        requireSuperAdmin(request.auth, "Only super administrators can preview email templates");
+
+        if (!data.template || !Object.prototype.hasOwnProperty.call(emailTemplates, data.template)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `Unknown template. Available templates: ${Object.keys(emailTemplates).join(", ")}`
+            );
+        }
+
+        // Overlay any caller-provided values on the template's sample data
+        const name = data.template as EmailTemplateName;
+        const sampleData = { ...emailTemplates[name].sampleData, ...(data.data || {}) };
+        const message = renderEmail(
+            name,
+            "preview@example.com",
+            sampleData as EmailTemplateData<typeof name>,
+            resolveLocale(data.locale)
+        );
+
+        return {
+            success: true,
+            subject: message.subject,
+            html: message.html,
+            text: message.text,
+        };
+    } catch (error) {
+        logger.error("Error previewing email template:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to preview email template"
+        );
+    }
+});
+
+/**
+ * Deliver queued emails
+ * This trigger sends each email as soon as it is written to the outbox
+ */
+export const processEmailOutbox = functions.firestore.onDocumentCreated({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com",
+    document: "emailOutbox/{emailId}",
+    region: "us-central1",
+}, async (event) => {
+    try {
+        if (!event.data) {
+            logger.error("Event data is undefined");
+            return;
+        }
+        await deliverOutboxEmail(event.data.ref);
+    } catch (error) {
+        logger.error("Error processing outbox email:", error);
+    }
+});
+
+/**
+ * Retry queued emails
+ * This scheduled job picks up emails whose backoff has elapsed or whose send lease expired
+ */
+export const retryEmailOutbox = functions.scheduler.onSchedule({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com",
+    schedule: "every 1 minutes",
+    region: "us-central1",
+}, async () => {
+    // Sent and dead-lettered emails have no nextAttemptAt, so only pending ones match
+    const dueSnapshot = await admin.firestore()
+        .collection("emailOutbox")
+        .where("nextAttemptAt", "<=", admin.firestore.Timestamp.now())
+        .limit(50)
+        .get();
+
+    for (const outboxDoc of dueSnapshot.docs) {
+        try {
+            await deliverOutboxEmail(outboxDoc.ref);
+        } catch (error) {
+            logger.error("Error retrying outbox email:", { emailId: outboxDoc.id, error });
+        }
+    }
+});
+
+/**
+ * Get email delivery status
+ * This function lets the requester of an email (or a super admin) check whether it was sent
+ */
+export const getEmailStatus = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<EmailStatusData>) => {
+    try {
+        const { data } = request;
+        const auth = requireAuth(request.auth);
+
+        if (!data.emailId) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing email ID"
+            );
+        }
+
+        const outboxDoc = await admin.firestore().collection("emailOutbox").doc(data.emailId).get();
+
+        if (!outboxDoc.exists) {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "Email not found"
+            );
+        }
+
+        const outbox = outboxDoc.data() as OutboxEmail;
+        if (outbox.requestedBy !== auth.uid && !isSuperAdmin(auth)) {
+            throw new functions.https.HttpsError(
+                "permission-denied",
+                "You can only check emails you requested"
+            );
+        }
+
+        return { success: true, email: toOutboxStatus(outboxDoc) };
+    } catch (error) {
+        logger.error("Error getting email status:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to get email status"
+        );
+    }
+});
+
+/**
+ * List outbox emails
+ * This function lets super admins page through the outbox, e.g. to review dead-lettered emails
+ */
+export const listOutboxEmails = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<ListOutboxEmailsData>) => {
+    try {
+        const { data } = request;
+
+        requireSuperAdmin(request.auth, "Only super administrators can view the email outbox");
+
+        const limit = Math.min(Math.max(data.limit || 25, 1), 100);
+        let query: admin.firestore.Query = admin.firestore().collection("emailOutbox");
+        if (data.status) {
+            query = query.where("status", "==", data.status);
+        }
+        if (data.organizationId) {
+            query = query.where("organizationId", "==", data.organizationId);
+        }
+        query = query.orderBy(admin.firestore.FieldPath.documentId()).limit(limit);
+        if (data.startAfter) {
+            query = query.startAfter(data.startAfter);
+        }
+
+        const snapshot = await query.get();
+        const emails = snapshot.docs.map(toOutboxStatus);
+
+        return {
+            success: true,
+            emails,
+            nextCursor: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+        };
+    } catch (error) {
+        logger.error("Error listing outbox emails:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to list outbox emails"
+        );
+    }
+});
+
+/**
+ * Retry a failed email
+ * This function lets super admins move a dead-lettered email back into the queue
+ */
+export const retryOutboxEmail = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<EmailStatusData>) => {
+    try {
+        const { data } = request;
+
+        requireSuperAdmin(request.auth, "Only super administrators can retry emails");
+
+        if (!data.emailId) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing email ID"
+            );
+        }
+
+        const outboxRef = admin.firestore().collection("emailOutbox").doc(data.emailId);
+        await admin.firestore().runTransaction(async (transaction) => {
+            const outboxDoc = await transaction.get(outboxRef);
+
+            if (!outboxDoc.exists) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "Email not found"
+                );
+            }
+
+            const outbox = outboxDoc.data() as OutboxEmail;
+            if (outbox.status !== "failed") {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "Only failed emails can be retried"
+                );
+            }
+            if (!outbox.message.body && !outbox.message.html) {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "This email's body is no longer stored; repeat the original action to send a new one"
+                );
+            }
+
+            transaction.update(outboxRef, {
+                status: "queued",
+                attempts: 0,
+                nextAttemptAt: admin.firestore.Timestamp.now(),
+                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+        });
+
+        // Deliver right away rather than waiting for the retry job
+        await deliverOutboxEmail(outboxRef);
+        const outboxDoc = await outboxRef.get();
+
+        await writeAuditLog(request, {
+            action: "email.retry",
+            targetType: "emailOutbox",
+            targetId: outboxRef.id,
+            organizationId: (outboxDoc.data() as OutboxEmail).organizationId,
+            before: { status: "failed" },
+            after: { status: (outboxDoc.data() as OutboxEmail).status },
+        });
+
+        return { success: true, email: toOutboxStatus(outboxDoc) };
+    } catch (error) {
+        logger.error("Error retrying outbox email:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to retry email"
+        );
+    }
+});
+
+/**
+ * Generate public link on profile completion
+ * This trigger watches for user profile completion and generates a public link
+ */
+export const generatePublicLink = functions.firestore.onDocumentUpdated({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com",
+    document: "users/{userId}",
+    region: "us-central1",
+}, async (event) => {
+    try {
+        if (!event.data) {
+            logger.error("Event data is undefined");
+            return null;
+        }
+
+        const before = event.data.before.data();
+        const after = event.data.after.data();
+        const userId = event.params.userId;
+
+        // Only trigger when profile is newly completed
+        if (after.profileCompleted &&
+            (!before.profileCompleted || before.profileCompleted === false) &&
+            !after.publicLinkId) {
+
+            logger.info(`Generating public link for user: ${userId}`);
+
+            const userRef = event.data.after.ref;
+            const linkId = await admin.firestore().runTransaction(async (transaction) => {
+                // A redelivered event may already have created the link
+                const userDoc = await transaction.get(userRef);
+                const existingLinkId = userDoc.data()?.publicLinkId as string | undefined;
+                if (existingLinkId) {
+                    return existingLinkId;
+                }
+
+                const newLinkId = await allocatePublicLink(transaction, userId);
+
+                // Update user with their link ID
+                transaction.update(userRef, {
+                    publicLinkId: newLinkId,
+                    publicProfileEnabled: true
+                });
+                return newLinkId;
+            });
+
+            logger.info(`Public link generated for user ${userId}: ${linkId}`);
+            return { success: true, linkId };
+        }
+
+        return null;
+    } catch (error) {
+        logger.error("Error generating public link:", error);
+        return null;
+    }
+});
+
+/**
+ * Issue message challenge
+ * This function hands the public page a proof-of-work challenge to solve before submitting a message
+ */
+export const issueMessageChallenge = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<MessageChallengeData>) => {
+    try {
+        const linkId = await resolvePublicLinkId(request.data);
+
+        if (MESSAGE_POW_DIFFICULTY <= 0) {
+            return { success: true, required: false, challenge: null, difficulty: 0, expiresAt: null };
+        }
+
+        return { success: true, required: true, ...issueMessageChallengeToken(linkId) };
+    } catch (error) {
+        logger.error("Error issuing message challenge:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to issue challenge"
+        );
+    }
+});
+
+/**
+ * Submit anonymous message
+ * This function handles anonymous message submission from public profile page
+ */
+export const submitAnonymousMessage = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<AnonymousMessageData>) => {
+    try {
+        const { message, senderName, challenge, solution, clientId } = request.data;
+
+        // Validate inputs
+        if ((!request.data.linkId && !request.data.handle) || !message || !senderName) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Missing required fields"
+            );
+        }
+
+        if (typeof message !== "string" || typeof senderName !== "string" ||
+            message.length > MAX_MESSAGE_LENGTH || senderName.length > MAX_SENDER_NAME_LENGTH) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `Messages are limited to ${MAX_MESSAGE_LENGTH} characters and names to ${MAX_SENDER_NAME_LENGTH}`
+            );
+        }
+
+        // Look up link to find recipient
+        const linkId = await resolvePublicLinkId(request.data);
+        const linkDoc = await admin.firestore().collection('userPublicLinks').doc(linkId).get();
+
+        if (!linkDoc.exists) {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "Invalid link"
+            );
+        }
+
+        const linkData = linkDoc.data() as { userId: string, isActive: boolean };
+
+        // Check if link is active
+        if (!linkData.isActive) {
+            throw new functions.https.HttpsError(
+                "failed-precondition",
+                "This link is no longer active"
+            );
+        }
+
+        // Get recipient user
+        const userDoc = await admin.firestore().collection('users').doc(linkData.userId).get();
+
+        if (!userDoc.exists) {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "Recipient user not found"
+            );
+        }
+
+        // Links of members of a suspended organization are paused
+        const recipientOrgId = await getUserOrganizationId(linkData.userId, userDoc.data());
+        let recipientOrg: admin.firestore.DocumentData | undefined;
+        if (recipientOrgId) {
+            const recipientOrgDoc = await admin.firestore().collection('organizations').doc(recipientOrgId).get();
+            recipientOrg = recipientOrgDoc.data();
+            if (recipientOrg && !isOrganizationActive(recipientOrg)) {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "This link is no longer active"
+                );
+            }
+        }
+
+        // Banned senders and senders the recipient blocked are turned away
+        const senderFingerprint = computeSenderFingerprint(
+            request.rawRequest.ip,
+            String(request.rawRequest.headers["user-agent"] || ""),
+            clientId
+        );
+        if (senderFingerprint && await getSenderRestriction(senderFingerprint, linkData.userId)) {
+            throw new functions.https.HttpsError(
+                "permission-denied",
+                "You can't send messages to this user"
+            );
+        }
+
+        // Throttle per IP, per link and globally before doing any more work
+        const ipHash = hashIdentifier("ip", request.rawRequest.ip || "unknown");
+        const challengeNonce = MESSAGE_POW_DIFFICULTY > 0 ? verifyMessageChallenge(linkId, challenge, solution) : null;
+        const slot = await reserveMessageSlot(linkId, ipHash, challengeNonce);
+        if (!slot.allowed) {
+            const limitedBatch = admin.firestore().batch();
+            limitedBatch.update(linkDoc.ref, {
+                rateLimitedCount: admin.firestore.FieldValue.increment(1)
+            });
+            const limitedStats = dailyLinkStatsUpdate(linkId, { rateLimited: 1 });
+            limitedBatch.set(limitedStats.ref, limitedStats.data, { merge: true });
+            await limitedBatch.commit();
+
+            logger.warn(`Anonymous message to link ${linkId} rate limited`, { reason: slot.reason });
+            throw rateLimitError(
+                slot.reason,
+                "Too many messages. Please try again later.",
+                slot.retryAfterMs
+            );
+        }
+
+        // Moderate before anything is stored: global, organization and recipient rules all apply
+        const moderationConfig = await getGlobalModerationConfig();
+        const moderation = moderateMessage(
+            { message, senderName },
+            [
+                { scope: "global", rules: moderationConfig.rules },
+                { scope: "organization", rules: (recipientOrg?.moderationRules || []) as ModerationRule[] },
+                { scope: "user", rules: (userDoc.data()?.moderationRules || []) as ModerationRule[] }
+            ],
+            moderationConfig.detectors
+        );
+
+        if (moderation.verdict === "reject") {
+            logger.info(`Anonymous message to user ${linkData.userId} rejected by moderation`, { reasons: moderation.reasons });
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "This message can't be sent",
+                { reason: "moderation" }
+            );
+        }
+
+        // Quarantined messages are hidden from the inbox until the recipient reviews them
+        const status = moderation.verdict === "quarantine" ? "quarantined" : "visible";
+
+        // The receipt token is the sender's only way back to this message, so just its hash is kept
+        const receiptToken = crypto.randomBytes(32).toString("hex");
+
+        // Create anonymous message
+        const messageData = {
+            recipientId: linkData.userId,
+            senderName,
+            message,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            read: false,
+            linkId,
+            senderFingerprint,
+            senderFingerprintVersion: SENDER_FINGERPRINT_VERSION,
+            hasAbuseMetadata: true,
+            status,
+            moderation,
+            receiptTokenHash: hashReceiptToken(receiptToken)
+        };
+
+        const messageRef = await admin.firestore().collection('anonymousMessages').add(messageData);
+
+        // Increment message count on the link and its daily bucket
+        if (status === "visible") {
+            const statsBatch = admin.firestore().batch();
+            statsBatch.update(linkDoc.ref, {
+                messageCount: admin.firestore.FieldValue.increment(1),
+                lastUpdated: admin.firestore.FieldValue.serverTimestamp()
+            });
+            const messageStats = dailyLinkStatsUpdate(linkId, { messages: 1 });
+            statsBatch.set(messageStats.ref, messageStats.data, { merge: true });
+            await statsBatch.commit();
+        }
+
+        logger.info(`Anonymous message sent to user ${linkData.userId} via link ${linkId}`, { status });
+
+        return {
+            success: true,
+            messageId: messageRef.id,
+            receiptToken
+        };
+    } catch (error) {
+        logger.error("Error submitting anonymous message:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to submit message"
+        );
+    }
+});
+
+/**
+ * Deactivate public link
+ * This function pauses the caller's public link so it stops accepting messages
+ */
+export const deactivatePublicLink = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<void>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const { linkId, changed } = await setPublicLinkActive(auth.uid, false);
+
+        logger.info(`Public link ${linkId} deactivated by user ${auth.uid}`);
+
+        return { success: true, linkId, isActive: false, changed };
+    } catch (error) {
+        logger.error("Error deactivating public link:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to deactivate public link"
+        );
+    }
+});
+
+/**
+ * Reactivate public link
+ * This function resumes the caller's paused public link
+ */
+export const reactivatePublicLink = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<void>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const { linkId, changed } = await setPublicLinkActive(auth.uid, true);
+
+        logger.info(`Public link ${linkId} reactivated by user ${auth.uid}`);
+
+        return { success: true, linkId, isActive: true, changed };
+    } catch (error) {
+        logger.error("Error reactivating public link:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to reactivate public link"
+        );
+    }
+});
+
+/**
+ * Rotate public link
+ * This function replaces the caller's link ID with a new one; the old link stops working
+ * Messages stay addressed to the user, so their history is kept; a paused link stays paused
+ * A handle keeps pointing at the user across rotations, so releaseHandle also gives up their handles
+ */
+export const rotatePublicLink = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<RotatePublicLinkData | undefined>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const releaseHandle = request.data?.releaseHandle === true;
+
+        const result = await admin.firestore().runTransaction(async (transaction) => {
+            const { userRef, linkRef, linkId, link } = await getCurrentPublicLink(transaction, auth.uid);
+            // Includes old handles still redirecting to the user
+            const handlesSnapshot = releaseHandle ?
+                await transaction.get(admin.firestore().collection('publicHandles').where("userId", "==", auth.uid)) :
+                null;
+
+            const isActive = link.isActive !== false;
+            const newLinkId = await allocatePublicLink(transaction, auth.uid, {
+                isActive,
+                viewCount: link.viewCount ?? 0,
+                messageCount: link.messageCount ?? 0,
+                previousLinkId: linkId
+            });
+            transaction.update(linkRef, {
+                isActive: false,
+                rotatedTo: newLinkId,
+                rotatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                lastUpdated: admin.firestore.FieldValue.serverTimestamp()
+            });
+            transaction.update(userRef, {
+                publicLinkId: newLinkId,
+                publicProfileEnabled: isActive,
+                ...(releaseHandle ? { publicHandle: admin.firestore.FieldValue.delete() } : {})
+            });
+            handlesSnapshot?.docs.forEach((handleDoc) => transaction.delete(handleDoc.ref));
+
+            return {
+                previousLinkId: linkId,
+                linkId: newLinkId,
+                isActive,
+                releasedHandles: handlesSnapshot?.docs.map((handleDoc) => handleDoc.id) ?? []
+            };
+        });
+
+        logger.info(`Public link rotated for user ${auth.uid}: ${result.previousLinkId} -> ${result.linkId}`);
+
+        return { success: true, ...result };
+    } catch (error) {
+        logger.error("Error rotating public link:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to rotate public link"
+        );
+    }
+});
+
+/**
+ * Claim public handle
+ * This function reserves a vanity handle (e.g. /u/jane) for the caller's public link
+ * The previous handle keeps redirecting to the new one for a grace period
+ */
+export const claimPublicHandle = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<ClaimPublicHandleData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const handle = normalizeHandle(request.data.handle);
+
+        const result = await admin.firestore().runTransaction(async (transaction) => {
+            const userRef = admin.firestore().collection('users').doc(auth.uid);
+            const handleRef = admin.firestore().collection('publicHandles').doc(handle);
+            const [userDoc, handleDoc] = await Promise.all([
+                transaction.get(userRef),
+                transaction.get(handleRef)
+            ]);
+
+            if (!userDoc.data()?.publicLinkId) {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "Complete your profile to get a public link before choosing a handle"
+                );
+            }
+
+            const previousHandle = (userDoc.data()?.publicHandle as string | undefined) ?? null;
+            if (previousHandle === handle) {
+                return { handle, previousHandle, changed: false };
+            }
+
+            // Another user's handle is taken until its redirect grace period ends
+            if (handleDoc.exists && handleDoc.data()?.userId !== auth.uid) {
+                const reservation = handleDoc.data()!;
+                const expiresAt = reservation.expiresAt as admin.firestore.Timestamp | null;
+                if (reservation.status === "active" || !expiresAt || expiresAt.toMillis() > Date.now()) {
+                    throw new functions.https.HttpsError(
+                        "already-exists",
+                        "This handle is already taken"
+                    );
+                }
+            }
+
+            transaction.set(handleRef, {
+                userId: auth.uid,
+                status: "active",
+                expiresAt: null,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+
+            if (previousHandle) {
+                transaction.set(admin.firestore().collection('publicHandles').doc(previousHandle), {
+                    userId: auth.uid,
+                    status: "redirect",
+                    expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + HANDLE_REDIRECT_DAYS * 24 * 60 * 60 * 1000),
+                    updatedAt: admin.firestore.FieldValue.serverTimestamp()
+                }, { merge: true });
+            }
+
+            transaction.update(userRef, { publicHandle: handle });
+
+            return { handle, previousHandle, changed: true };
+        });
+
+        logger.info(`Handle ${result.handle} claimed by user ${auth.uid}`, { previousHandle: result.previousHandle });
+
+        return { success: true, ...result };
+    } catch (error) {
+        logger.error("Error claiming public handle:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to claim handle"
+        );
+    }
+});
+
+/**
+ * Resolve public handle
+ * This function checks that a handle has a public profile page
+ * Old handles in their grace period report the current handle so the page can redirect
+ */
+export const resolvePublicHandle = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<ResolvePublicHandleData>) => {
+    try {
+        // The link ID stays server-side; public endpoints accept the handle instead
+        const { handle, redirect } = await lookupPublicHandle(request.data.handle);
+
+        return { success: true, handle, redirect };
+    } catch (error) {
+        logger.error("Error resolving public handle:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to resolve handle"
+        );
+    }
+});
+
+/**
+ * Record profile view
+ * This function counts a view of a public profile, at most once per visitor per window
+ */
+export const recordProfileView = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<RecordProfileViewData>) => {
+    try {
+        const linkId = await resolvePublicLinkId(request.data);
+
+        const linkRef = admin.firestore().collection('userPublicLinks').doc(linkId);
+        const visitorId = hashVisitor(
+            linkId,
+            request.rawRequest.ip || "",
+            String(request.rawRequest.headers["user-agent"] || "")
+        );
+        const viewerRef = linkRef.collection('viewers').doc(visitorId);
+
+        const counted = await admin.firestore().runTransaction(async (transaction) => {
+            const [linkDoc, viewerDoc] = await Promise.all([
+                transaction.get(linkRef),
+                transaction.get(viewerRef)
+            ]);
+
+            if (!linkDoc.exists) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "Invalid link"
+                );
+            }
+            if (!linkDoc.data()?.isActive) {
+                return false;
+            }
+
+            const now = Date.now();
+            const lastViewedAt = viewerDoc.data()?.lastViewedAt as admin.firestore.Timestamp | undefined;
+            if (lastViewedAt && lastViewedAt.toMillis() + VIEW_DEDUP_WINDOW_MINUTES * 60 * 1000 > now) {
+                return false;
+            }
+
+            // expiresAt lets a TTL policy clean up stale viewer records
+            transaction.set(viewerRef, {
+                lastViewedAt: admin.firestore.Timestamp.fromMillis(now),
+                expiresAt: admin.firestore.Timestamp.fromMillis(now + VIEW_DEDUP_WINDOW_MINUTES * 60 * 1000)
+            });
+            transaction.update(linkRef, {
+                viewCount: admin.firestore.FieldValue.increment(1),
+                lastViewedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+            const viewStats = dailyLinkStatsUpdate(linkId, { views: 1 });
+            transaction.set(viewStats.ref, viewStats.data, { merge: true });
+            return true;
+        });
+
+        return { success: true, counted };
+    } catch (error) {
+        logger.error("Error recording profile view:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to record profile view"
+        );
+    }
+});
+
+/**
+ * Get link stats
+ * This function returns the caller's link totals and daily view and message counts for a trend chart
+ */
+export const getLinkStats = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<LinkStatsData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const days = Math.min(Math.max(Math.floor(request.data?.days ?? 30), 1), LINK_STATS_MAX_DAYS);
+
+        const userDoc = await admin.firestore().collection('users').doc(auth.uid).get();
+        const linkId = userDoc.data()?.publicLinkId as string | undefined;
+        if (!linkId) {
+            throw new functions.https.HttpsError(
+                "failed-precondition",
+                "You do not have a public link yet"
+            );
+        }
+
+        const linkRef = admin.firestore().collection('userPublicLinks').doc(linkId);
+        const since = toDayKey(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+        const [linkDoc, statsSnapshot] = await Promise.all([
+            linkRef.get(),
+            linkRef.collection('dailyStats').where("date", ">=", since).get()
+        ]);
+
+        const buckets = new Map(statsSnapshot.docs.map((doc) => [doc.id, doc.data()]));
+
+        // Fill days without activity so the chart has a continuous axis
+        const daily = Array.from({ length: days }, (_, index) => {
+            const date = toDayKey(new Date(Date.now() - (days - 1 - index) * 24 * 60 * 60 * 1000));
+            const bucket = buckets.get(date);
+            return {
+                date,
+                views: bucket?.views ?? 0,
+                messages: bucket?.messages ?? 0,
+                rateLimited: bucket?.rateLimited ?? 0,
+            };
+        });
+
+        return {
+            success: true,
+            linkId,
+            viewCount: linkDoc.data()?.viewCount ?? 0,
+            messageCount: linkDoc.data()?.messageCount ?? 0,
+            rateLimitedCount: linkDoc.data()?.rateLimitedCount ?? 0,
+            daily,
+        };
+    } catch (error) {
+        logger.error("Error getting link stats:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to get link stats"
+        );
+    }
+});
+
+/**
+ * Update moderation rules
+ * This function replaces the blocklist rules for the whole platform, an organization or the caller
+ * Global updates may also change the built-in link, email and phone number detector verdicts
+ */
+export const updateModerationRules = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<UpdateModerationRulesData>) => {
+    try {
+        const { scope, organizationId, detectors } = request.data;
+        const rules = validateModerationRules(request.data.rules, scope);
+
+        if (scope === "global") {
+            requireSuperAdmin(request.auth, "Only super administrators can change global moderation rules");
+
+            const nextDetectors = { ...DEFAULT_MODERATION_DETECTORS };
+            for (const [name, verdict] of Object.entries(detectors || {})) {
+                if (!(name in nextDetectors) || !(verdict in MODERATION_VERDICT_RANK)) {
+                    throw new functions.https.HttpsError(
+                        "invalid-argument",
+                        `Invalid detector setting: ${name}`
+                    );
+                }
+                nextDetectors[name as keyof ModerationDetectors] = verdict as ModerationVerdict;
+            }
+
+            const configRef = admin.firestore().collection("moderationConfig").doc("global");
+            const before = (await configRef.get()).data() || {};
+            await configRef.set({
+                rules,
+                detectors: nextDetectors,
+                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+            globalModerationCache = null;
+
+            await writeAuditLog(request, {
+                action: "moderation.updateRules",
+                targetType: "moderationConfig",
+                targetId: "global",
+                before: { rules: before.rules ?? [], detectors: before.detectors ?? DEFAULT_MODERATION_DETECTORS },
+                after: { rules, detectors: nextDetectors },
+            });
+
+            return { success: true, scope, rules, detectors: nextDetectors };
+        }
+
+        if (scope === "organization") {
+            if (!organizationId) {
+                throw new functions.https.HttpsError(
+                    "invalid-argument",
+                    "Missing organization ID"
+                );
+            }
+            requireOrgAdmin(request.auth, organizationId, "Only organization admins can change organization moderation rules");
+
+            const orgRef = admin.firestore().collection("organizations").doc(organizationId);
+            const orgDoc = await orgRef.get();
+            if (!orgDoc.exists) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "Organization not found"
+                );
+            }
+            await orgRef.update({
+                moderationRules: rules,
+                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+
+            await writeAuditLog(request, {
+                action: "moderation.updateRules",
+                targetType: "organization",
+                targetId: organizationId,
+                organizationId,
+                before: { rules: orgDoc.data()?.moderationRules ?? [] },
+                after: { rules },
+            });
+
+            return { success: true, scope, rules };
+        }
+
+        if (scope === "user") {
+            const auth = requireAuth(request.auth);
+            await admin.firestore().collection("users").doc(auth.uid).set({ moderationRules: rules }, { merge: true });
+            return { success: true, scope, rules };
+        }
+
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            "Scope must be global, organization or user"
+        );
+    } catch (error) {
+        logger.error("Error updating moderation rules:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to update moderation rules"
+        );
+    }
+});
+
+/**
+ * List quarantined messages
+ * This function returns the caller's messages held back by moderation, newest first
+ */
+export const listQuarantinedMessages = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<ListQuarantinedMessagesData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const data = request.data || {};
+
+        const limit = Math.min(Math.max(data.limit || 25, 1), 100);
+        let query = admin.firestore().collection("anonymousMessages")
+            .where("recipientId", "==", auth.uid)
+            .where("status", "==", "quarantined")
+            .orderBy("createdAt", "desc")
+            .limit(limit);
+
+        if (data.startAfter) {
+            const cursorDoc = await admin.firestore().collection("anonymousMessages").doc(data.startAfter).get();
+            if (!cursorDoc.exists || cursorDoc.data()?.recipientId !== auth.uid) {
+                throw new functions.https.HttpsError(
+                    "invalid-argument",
+                    "Invalid pagination cursor"
+                );
+            }
+            query = query.startAfter(cursorDoc);
+        }
+
+        const snapshot = await query.get();
+
+        return {
+            success: true,
+            messages: snapshot.docs.map(toMessageSummary),
+            nextCursor: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+        };
+    } catch (error) {
+        logger.error("Error listing quarantined messages:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to list quarantined messages"
+        );
+    }
+});
+
+/**
+ * Review quarantined message
+ * This function lets the recipient release a quarantined message to their inbox or delete it
+ */
+export const reviewQuarantinedMessage = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<ReviewQuarantinedMessageData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const { messageId, action } = request.data;
+
+        if (!messageId || (action !== "release" && action !== "delete")) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "A message ID and an action of release or delete are required"
+            );
+        }
+
+        const messageRef = admin.firestore().collection("anonymousMessages").doc(messageId);
+
+        await admin.firestore().runTransaction(async (transaction) => {
+            const messageDoc = await transaction.get(messageRef);
+            const message = messageDoc.data();
+
+            if (!message || message.recipientId !== auth.uid) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "Message not found"
+                );
+            }
+            if (message.status !== "quarantined") {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "Message is not quarantined"
+                );
+            }
+
+            if (action === "delete") {
+                transaction.delete(messageRef);
+                return;
+            }
+
+            const countedLink = await getCountedPublicLink(transaction, auth.uid);
+            transaction.update(messageRef, {
+                status: "visible",
+                releasedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+
+            // Released messages count towards the link like any other message
+            if (countedLink) {
+                transaction.update(countedLink.ref, {
+                    messageCount: admin.firestore.FieldValue.increment(1),
+                    lastUpdated: admin.firestore.FieldValue.serverTimestamp()
+                });
+                const messageStats = dailyLinkStatsUpdate(countedLink.linkId, { messages: 1 });
+                transaction.set(messageStats.ref, messageStats.data, { merge: true });
+            }
+        });
+
+        logger.info(`Quarantined message ${messageId} ${action === "release" ? "released" : "deleted"} by user ${auth.uid}`);
+
+        return { success: true, messageId, action };
+    } catch (error) {
+        logger.error("Error reviewing quarantined message:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to review message"
+        );
+    }
+});
+
+/**
+ * List inbox messages
+ * This function returns the caller's anonymous messages, newest first, with optional filters
+ * Legacy messages may lack archived/status fields, so those are filtered after the query and a page can be short
+ */
+export const listInboxMessages = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<ListInboxMessagesData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const data = request.data || {};
+        const filter: InboxFilter = data.filter || "all";
+
+        if (!["all", "unread", "starred", "archived"].includes(filter)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Filter must be all, unread, starred or archived"
+            );
+        }
+
+        const limit = Math.min(Math.max(data.limit || 25, 1), 100);
+        let query: admin.firestore.Query = admin.firestore().collection("anonymousMessages")
+            .where("recipientId", "==", auth.uid);
+
+        if (filter === "unread") {
+            query = query.where("read", "==", false);
+        } else if (filter === "starred") {
+            query = query.where("starred", "==", true);
+        } else if (filter === "archived") {
+            query = query.where("archived", "==", true);
+        }
+        if (data.from) {
+            query = query.where("createdAt", ">=", admin.firestore.Timestamp.fromMillis(data.from));
+        }
+        if (data.to) {
+            query = query.where("createdAt", "<=", admin.firestore.Timestamp.fromMillis(data.to));
+        }
+        query = query.orderBy("createdAt", "desc").limit(limit);
+
+        if (data.startAfter) {
+            const cursorDoc = await admin.firestore().collection("anonymousMessages").doc(data.startAfter).get();
+            if (!cursorDoc.exists || cursorDoc.data()?.recipientId !== auth.uid) {
+                throw new functions.https.HttpsError(
+                    "invalid-argument",
+                    "Invalid pagination cursor"
+                );
+            }
+            query = query.startAfter(cursorDoc);
+        }
+
+        const snapshot = await query.get();
+
+        // Archived messages only show up when asked for (starred ones always do)
+        const messages = snapshot.docs
+            .filter((messageDoc) => isInboxMessage(messageDoc.data(), auth.uid))
+            .filter((messageDoc) => filter === "archived" || filter === "starred" || messageDoc.data().archived !== true)
+            .map(toMessageSummary);
+
+        return {
+            success: true,
+            messages,
+            nextCursor: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+        };
+    } catch (error) {
+        logger.error("Error listing inbox messages:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to list messages"
+        );
+    }
+});
+
+/**
+ * Update inbox messages
+ * This function marks the caller's messages read or unread, starred or archived, in bulk
+ */
+export const updateInboxMessages = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<UpdateInboxMessagesData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const { action } = request.data;
+        const messageIds = requireMessageIds(request.data.messageIds);
+
+        if (!(action in INBOX_ACTION_UPDATES)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "Unknown inbox action"
+            );
+        }
+
+        const messagesRef = admin.firestore().collection("anonymousMessages");
+        const messageDocs = await admin.firestore().getAll(...messageIds.map((id) => messagesRef.doc(id)));
+        const owned = messageDocs.filter((messageDoc) => isInboxMessage(messageDoc.data(), auth.uid));
+
+        const batch = admin.firestore().batch();
+        owned.forEach((messageDoc) => batch.update(messageDoc.ref, {
+            ...INBOX_ACTION_UPDATES[action],
+            ...(action === "markRead" ? { readAt: admin.firestore.FieldValue.serverTimestamp() } : {})
+        }));
+        await batch.commit();
+
+        const updated = owned.map((messageDoc) => messageDoc.id);
+
+        return {
+            success: true,
+            action,
+            updated,
+            skipped: messageIds.filter((id) => !updated.includes(id)),
+        };
+    } catch (error) {
+        logger.error("Error updating inbox messages:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to update messages"
+        );
+    }
+});
+
+/**
+ * Delete inbox messages
+ * This function permanently deletes the caller's messages and keeps link message counts in step
+ */
+export const deleteInboxMessages = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<InboxMessageIdsData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const messageIds = requireMessageIds(request.data.messageIds);
+        const messagesRef = admin.firestore().collection("anonymousMessages");
+
+        const deleted = await admin.firestore().runTransaction(async (transaction) => {
+            const messageDocs = await transaction.getAll(...messageIds.map((id) => messagesRef.doc(id)));
+            const owned = messageDocs.filter((messageDoc) => isInboxMessage(messageDoc.data(), auth.uid));
+            const countedLink = owned.length ? await getCountedPublicLink(transaction, auth.uid) : null;
+
+            owned.forEach((messageDoc) => {
+                transaction.delete(messageDoc.ref);
+                transaction.delete(admin.firestore().collection("publicAnswers").doc(messageDoc.id));
+            });
+            // Only visible messages were counted
+            if (countedLink) {
+                transaction.update(countedLink.ref, {
+                    messageCount: admin.firestore.FieldValue.increment(-owned.length),
+                    lastUpdated: admin.firestore.FieldValue.serverTimestamp()
+                });
+            }
+
+            return owned.map((messageDoc) => messageDoc.id);
+        });
+
+        logger.info(`User ${auth.uid} deleted ${deleted.length} messages`);
+
+        return {
+            success: true,
+            deleted,
+            skipped: messageIds.filter((id) => !deleted.includes(id)),
+        };
+    } catch (error) {
+        logger.error("Error deleting inbox messages:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to delete messages"
+        );
+    }
 });
 
 /**
- * Send email verification OTP
- * This function sends a verification code to the user's email
+ * Reply to message
+ * This function lets the recipient answer a message, either privately to the sender or on their public profile
  */
-export const sendEmailVerification = functions.https.onCall({
+export const replyToMessage = functions.https.onCall({
     serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
-}, async (request: CallableRequest<EmailVerificationData>) => {
+}, async (request: CallableRequest<ReplyToMessageData>) => {
     try {
-        // Check if user is authenticated
-        if (!request.auth) {
-            throw new functions.https.HttpsError(
-                "unauthenticated",
-                "User must be authenticated"
-            );
-        }
+        const auth = requireAuth(request.auth);
+        const { messageId, visibility } = request.data;
+        const reply = typeof request.data.reply === "string" ? request.data.reply.trim() : "";
 
-        const { email, organizationId } = request.data;
-        const userId = request.auth.uid;
-
-        // Validate input
-        if (!email || !organizationId) {
+        if (!messageId || !reply || (visibility !== "public" && visibility !== "private")) {
             throw new functions.https.HttpsError(
                 "invalid-argument",
-                "Email and organization ID are required"
+                "A message ID, reply and visibility of public or private are required"
             );
         }
-
-        // Validate email format
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        if (!emailRegex.test(email)) {
+        if (reply.length > MAX_MESSAGE_LENGTH) {
             throw new functions.https.HttpsError(
                 "invalid-argument",
-                "Invalid email format"
+                `Replies are limited to ${MAX_MESSAGE_LENGTH} characters`
             );
         }
 
-        logger.info(`Sending email verification to ${email.split("@")[0]}***`);
+        const messageRef = admin.firestore().collection("anonymousMessages").doc(messageId);
+        const answerRef = admin.firestore().collection("publicAnswers").doc(messageId);
 
-        // Verify email domain belongs to organization
-        const orgDoc = await admin.firestore()
-            .collection("organizations")
-            .doc(organizationId)
-            .get();
+        await admin.firestore().runTransaction(async (transaction) => {
+            const messageDoc = await transaction.get(messageRef);
+            const message = messageDoc.data();
 
-        if (!orgDoc.exists) {
-            throw new functions.https.HttpsError(
-                "not-found",
-                "Organization not found"
-            );
+            if (!isInboxMessage(message, auth.uid)) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "Message not found"
+                );
+            }
+
+            transaction.update(messageRef, {
+                reply: {
+                    text: reply,
+                    visibility,
+                    repliedAt: admin.firestore.FieldValue.serverTimestamp()
+                },
+                read: true
+            });
+
+            // Switching a public reply to private takes it off the profile
+            if (visibility === "public") {
+                transaction.set(answerRef, {
+                    userId: auth.uid,
+                    message: message!.message,
+                    answer: reply,
+                    answeredAt: admin.firestore.FieldValue.serverTimestamp()
+                });
+            } else {
+                transaction.delete(answerRef);
+            }
+        });
+
+        logger.info(`User ${auth.uid} replied to message ${messageId}`, { visibility });
+
+        return { success: true, messageId, visibility };
+    } catch (error) {
+        logger.error("Error replying to message:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
         }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to reply to message"
+        );
+    }
+});
 
-        const organization = orgDoc.data() as { domain: string, name: string };
-        const emailDomain = email.split("@")[1].toLowerCase();
-        const orgDomain = organization.domain.toLowerCase();
+/**
+ * Retract reply
+ * This function removes the recipient's reply, including its public answer if it was published
+ */
+export const retractReply = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<MessageIdData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const { messageId } = request.data;
 
-        // Check if email domain matches organization domain
-        if (emailDomain !== orgDomain) {
+        if (!messageId) {
             throw new functions.https.HttpsError(
                 "invalid-argument",
-                `Email domain does not match ${organization.name}'s domain (${orgDomain})`
+                "Missing message ID"
             );
         }
 
-        // Generate 4-digit OTP
-        const otp = Math.floor(1000 + Math.random() * 9000).toString();
+        const messageRef = admin.firestore().collection("anonymousMessages").doc(messageId);
 
-        // Store OTP in Firestore with expiration (15 minutes)
-        const expiresAt = admin.firestore.Timestamp.fromDate(
-            new Date(Date.now() + 15 * 60 * 1000)
-        );
-
-        // Store verification data
-        await admin.firestore()
-            .collection("emailVerifications")
-            .doc(userId)
-            .set({
-                email,
-                otp,
-                organizationId,
-                createdAt: admin.firestore.FieldValue.serverTimestamp(),
-                expiresAt,
-                verified: false,
-            });
-
-        // Send email with OTP
-        const mailOptions = {
-            from: `Tickl <${getConfig("EMAIL_USER", "your-email@gmail.com")}>`,
-            to: email,
-            subject: "Verify Your Company Email",
-            html: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2>Verify Your Company Email</h2>
-        <p>Your verification code is: <strong>${otp}</strong></p>
-        <p>This code will expire in 15 minutes.</p>
-        <p>If you didn't request this code, please ignore this email.</p>
-      </div>
-    `,
-        };
+        await admin.firestore().runTransaction(async (transaction) => {
+            const messageDoc = await transaction.get(messageRef);
+            if (!isInboxMessage(messageDoc.data(), auth.uid)) {
+                throw new functions.https.HttpsError(
+                    "not-found",
+                    "Message not found"
+                );
+            }
 
-        await transporter.sendMail(mailOptions);
-        logger.info(`Email verification sent to ${email.split("@")[0]}***`);
+            transaction.update(messageRef, { reply: admin.firestore.FieldValue.delete() });
+            transaction.delete(admin.firestore().collection("publicAnswers").doc(messageId));
+        });
 
-        return { success: true };
+        return { success: true, messageId };
     } catch (error) {
-        logger.error("Error sending email verification:", error);
+        logger.error("Error retracting reply:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
         throw new functions.https.HttpsError(
             "internal",
-            error instanceof Error ? error.message : "Failed to send verification email"
+            error instanceof Error ? error.message : "Failed to retract reply"
         );
     }
 });
 
 /**
- * Verify email OTP
- * This function verifies the OTP entered by the user
+ * Get public answers
+ * This function returns the messages a user has answered publicly, for their public profile page
  */
-export const verifyEmailOtp = functions.https.onCall({
+export const getPublicAnswers = functions.https.onCall({
     serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
-}, async (request: CallableRequest<OtpVerificationData>) => {
+}, async (request: CallableRequest<PublicAnswersData>) => {
     try {
-        // Check if user is authenticated
-        if (!request.auth) {
+        const { startAfter } = request.data;
+        const linkId = await resolvePublicLinkId(request.data);
+
+        const linkDoc = await admin.firestore().collection("userPublicLinks").doc(linkId).get();
+        const link = linkDoc.data();
+        if (!link || !link.isActive) {
             throw new functions.https.HttpsError(
-                "unauthenticated",
-                "User must be authenticated"
+                "not-found",
+                "Invalid link"
             );
         }
 
-        const { otp } = request.data;
-        const userId = request.auth.uid;
+        const limit = Math.min(Math.max(request.data.limit || 20, 1), 50);
+        let query = admin.firestore().collection("publicAnswers")
+            .where("userId", "==", link.userId)
+            .orderBy("answeredAt", "desc")
+            .limit(limit);
 
-        // Validate input
-        if (!otp) {
-            throw new functions.https.HttpsError(
-                "invalid-argument",
-                "Verification code is required"
-            );
+        if (startAfter) {
+            const cursorDoc = await admin.firestore().collection("publicAnswers").doc(startAfter).get();
+            if (!cursorDoc.exists || cursorDoc.data()?.userId !== link.userId) {
+                throw new functions.https.HttpsError(
+                    "invalid-argument",
+                    "Invalid pagination cursor"
+                );
+            }
+            query = query.startAfter(cursorDoc);
         }
 
-        logger.info(`Verifying email OTP for user ${userId}`);
-
-        // Get verification record
-        const verificationDoc = await admin.firestore()
-            .collection("emailVerifications")
-            .doc(userId)
-            .get();
+        const snapshot = await query.get();
 
-        if (!verificationDoc.exists) {
-            throw new functions.https.HttpsError(
-                "not-found",
-                "Verification record not found. Please request a new code."
-            );
+        return {
+            success: true,
+            answers: snapshot.docs.map(toPublicAnswer),
+            nextCursor: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+        };
+    } catch (error) {
+        logger.error("Error getting public answers:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
         }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to get answers"
+        );
+    }
+});
 
-        const verification = verificationDoc.data() as {
-            email: string;
-            otp: string;
-            expiresAt: admin.firestore.Timestamp;
-            organizationId: string;
-        };
+/**
+ * Get message reply
+ * This function lets an anonymous sender read the reply to their message using its receipt token
+ */
+export const getMessageReply = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<MessageReceiptData>) => {
+    try {
+        const { receiptToken } = request.data;
 
-        // Check if expired
-        const now = admin.firestore.Timestamp.now();
-        if (verification.expiresAt.toMillis() < now.toMillis()) {
+        if (!receiptToken || typeof receiptToken !== "string") {
             throw new functions.https.HttpsError(
-                "deadline-exceeded",
-                "Verification code has expired. Please request a new code."
+                "invalid-argument",
+                "Missing receipt token"
             );
         }
 
-        // Check OTP
-        if (verification.otp !== otp) {
+        const snapshot = await admin.firestore().collection("anonymousMessages")
+            .where("receiptTokenHash", "==", hashReceiptToken(receiptToken))
+            .limit(1)
+            .get();
+
+        if (snapshot.empty) {
             throw new functions.https.HttpsError(
-                "invalid-argument",
-                "Invalid verification code"
+                "not-found",
+                "Message not found"
             );
         }
 
-        // Mark as verified
-        await admin.firestore()
-            .collection("emailVerifications")
-            .doc(userId)
-            .update({
-                verified: true,
-                verifiedAt: admin.firestore.FieldValue.serverTimestamp(),
-            });
-
-        // Update user profile
-        await admin.firestore()
-            .collection("users")
-            .doc(userId)
-            .update({
-                companyEmail: verification.email,
-                companyEmailVerified: true,
-            });
-
-        logger.info(`Email verified successfully for ${verification.email.split("@")[0]}***`);
+        const message = snapshot.docs[0].data();
+        const reply = message.reply;
 
         return {
             success: true,
-            email: verification.email,
+            message: message.message,
+            sentAt: message.createdAt ? message.createdAt.toMillis() : null,
+            reply: reply ? {
+                text: reply.text,
+                visibility: reply.visibility,
+                repliedAt: reply.repliedAt ? reply.repliedAt.toMillis() : null,
+            } : null,
         };
     } catch (error) {
-        logger.error("Error verifying email:", error);
+        logger.error("Error getting message reply:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
         throw new functions.https.HttpsError(
             "internal",
-            error instanceof Error ? error.message : "Failed to verify email"
+            error instanceof Error ? error.message : "Failed to get reply"
         );
     }
 });
 
 /**
- * Send admin credentials
- * This function sends login credentials to admin users
+ * Report message
+ * This function lets the recipient flag an abusive message for review, optionally blocking its sender
  */
-export const sendAdminCredentials = functions.https.onCall({
+export const reportMessage = functions.https.onCall({
     serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
-}, async (request: CallableRequest<AdminCredentialsData>) => {
+}, async (request: CallableRequest<ReportMessageData>) => {
     try {
-        const { data, auth } = request;
+        const auth = requireAuth(request.auth);
+        const { messageId, reason, block } = request.data;
+        const details = typeof request.data.details === "string" ? request.data.details.trim().slice(0, 500) : null;
 
-        // Ensure the request is from an authenticated admin user
-        if (!auth) {
+        if (!messageId || !REPORT_REASONS.includes(reason)) {
             throw new functions.https.HttpsError(
-                "unauthenticated",
-                "Authentication required"
+                "invalid-argument",
+                `A message ID and a reason (${REPORT_REASONS.join(", ")}) are required`
             );
         }
 
-        // Get the caller's email
-        const callerEmail = auth.token?.email;
+        const messageRef = admin.firestore().collection("anonymousMessages").doc(messageId);
+        const reportRef = admin.firestore().collection("messageReports").doc(messageId);
+        const userRef = admin.firestore().collection("users").doc(auth.uid);
+        const organizationId = await getUserOrganizationId(auth.uid, (await userRef.get()).data());
 
-        // Check if the caller is a super admin
-        if (callerEmail !== getConfig("SUPER_ADMIN_EMAIL")) {
-            // Check if they are at least an org admin
-            const adminsSnapshot = await admin.firestore()
-                .collection("orgAdmins")
-                .where("email", "==", callerEmail)
-                .limit(1)
-                .get();
+        // One report per message, keyed by the message ID
+        const result = await admin.firestore().runTransaction(async (transaction) => {
+            const [messageDoc, reportDoc] = await transaction.getAll(messageRef, reportRef);
+            const message = messageDoc.data();
 
-            if (adminsSnapshot.empty) {
+            if (!message || message.recipientId !== auth.uid) {
                 throw new functions.https.HttpsError(
-                    "permission-denied",
-                    "Only organization administrators can create admin accounts"
+                    "not-found",
+                    "Message not found"
                 );
             }
-        }
 
-        // Validate required data
-        const { email, password, organizationName, dashboardUrl } = data;
+            const senderFingerprint = getSenderFingerprint(message);
+            if (block && senderFingerprint) {
+                transaction.set(userRef.collection("blockedSenders").doc(senderFingerprint), {
+                    messageId,
+                    excerpt: String(message.message ?? "").slice(0, 80),
+                    createdAt: admin.firestore.FieldValue.serverTimestamp()
+                });
+            }
 
-        if (!email || !password || !organizationName) {
-            throw new functions.https.HttpsError(
-                "invalid-argument",
-                "Missing required information"
-            );
-        }
+            if (reportDoc.exists) {
+                return { alreadyReported: true, blocked: !!(block && senderFingerprint) };
+            }
 
-        // Prepare email
-        const mailOptions = {
-            from: `Tickl Admin <${getConfig("EMAIL_USER")}>`,
-            to: email,
-            subject: `Your Admin Access to ${organizationName} on Tickl`,
-            html: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-        <h2 style="color: #3b82f6;">Tickl Organization Access</h2>
-        <p>Hello,</p>
-        <p>You have been granted administrator access to <strong>${organizationName}</strong> on Tickl.</p>
-        <p>Here are your login credentials:</p>
-        <div style="background-color: #f3f4f6; padding: 15px; border-radius: 5px; margin: 20px 0;">
-          <p style="margin: 5px 0;"><strong>Email:</strong> ${email}</p>
-          <p style="margin: 5px 0;"><strong>Password:</strong> ${password}</p>
-        </div>
-        <p>You can access the admin dashboard here:</p>
-        <p><a href="${dashboardUrl || getConfig("DASHBOARD_URL")}" style="color: #3b82f6;">${dashboardUrl || getConfig("DASHBOARD_URL")}</a></p>
-        <p>For security reasons, please change your password after your first login.</p>
-        <p>If you have any questions, please contact the organization owner.</p>
-        <p>Thank you,</p>
-        <p>The Tickl Team</p>
-      </div>
-    `,
-        };
+            transaction.create(reportRef, {
+                messageId,
+                recipientId: auth.uid,
+                organizationId,
+                reason,
+                details,
+                message: message.message,
+                senderName: message.senderName,
+                senderFingerprint,
+                senderFingerprintVersion: SENDER_FINGERPRINT_VERSION,
+                status: "open",
+                createdAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+            transaction.update(messageRef, { reported: true });
+
+            return { alreadyReported: false, blocked: !!(block && senderFingerprint) };
+        });
 
-        // Send email
-        await transporter.sendMail(mailOptions);
-        logger.info("Admin credentials email sent successfully", { email });
+        logger.info(`Message ${messageId} reported by user ${auth.uid}`, { reason, ...result });
 
-        // Return success
-        return { success: true };
+        return { success: true, reportId: messageId, ...result, notice: result.blocked ? SHARED_NETWORK_NOTICE : null };
     } catch (error) {
-        logger.error("Error sending credentials email:", error);
+        logger.error("Error reporting message:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
         throw new functions.https.HttpsError(
             "internal",
-            error instanceof Error ? error.message : "Failed to send credentials email"
+            error instanceof Error ? error.message : "Failed to report message"
         );
     }
 });
 
 /**
- * Approve Organization
- * This function is used by super admins to approve organizations on the platform
+ * Block sender
+ * This function stops the sender of one of the caller's messages from messaging any of the caller's links
  */
-export const approveOrganization = functions.https.onCall({
+export const blockSender = functions.https.onCall({
     serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
-}, async (request: CallableRequest<ApproveOrgData>) => {
+}, async (request: CallableRequest<MessageIdData>) => {
     try {
-        const { data, auth } = request;
+        const auth = requireAuth(request.auth);
+        const { messageId } = request.data;
 
-        // Ensure the request is from an authenticated super admin user
-        if (!auth) {
+        if (!messageId) {
             throw new functions.https.HttpsError(
-                "unauthenticated",
-                "Authentication required"
+                "invalid-argument",
+                "Missing message ID"
             );
         }
 
-        // Get the caller's email
-        const callerEmail = auth.token?.email;
+        const messageDoc = await admin.firestore().collection("anonymousMessages").doc(messageId).get();
+        const message = messageDoc.data();
+        if (!message || message.recipientId !== auth.uid) {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "Message not found"
+            );
+        }
 
-        // Check if the caller is a super admin
-        if (callerEmail !== getConfig("SUPER_ADMIN_EMAIL")) {
+        const senderFingerprint = getSenderFingerprint(message);
+        if (!senderFingerprint) {
             throw new functions.https.HttpsError(
-                "permission-denied",
-                "Only super administrators can approve organizations"
+                "failed-precondition",
+                "This sender can't be identified"
             );
         }
 
-        // Validate required data
-        const { organizationId, approved } = data;
+        await admin.firestore().collection("users").doc(auth.uid)
+            .collection("blockedSenders").doc(senderFingerprint).set({
+                messageId,
+                excerpt: String(message.message ?? "").slice(0, 80),
+                createdAt: admin.firestore.FieldValue.serverTimestamp()
+            });
 
-        if (!organizationId) {
+        logger.info(`User ${auth.uid} blocked the sender of message ${messageId}`);
+
+        return { success: true, blockId: senderFingerprint, notice: SHARED_NETWORK_NOTICE };
+    } catch (error) {
+        logger.error("Error blocking sender:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to block sender"
+        );
+    }
+});
+
+/**
+ * List blocked senders
+ * This function returns the senders the caller has blocked, identified by the message that prompted it
+ */
+export const listBlockedSenders = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<void>) => {
+    try {
+        const auth = requireAuth(request.auth);
+
+        const snapshot = await admin.firestore().collection("users").doc(auth.uid)
+            .collection("blockedSenders")
+            .orderBy("createdAt", "desc")
+            .get();
+
+        const blocked = snapshot.docs.map((blockDoc) => ({
+            blockId: blockDoc.id,
+            messageId: blockDoc.data().messageId,
+            excerpt: blockDoc.data().excerpt,
+            createdAt: blockDoc.data().createdAt ? blockDoc.data().createdAt.toMillis() : null,
+        }));
+
+        return { success: true, blocked };
+    } catch (error) {
+        logger.error("Error listing blocked senders:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to list blocked senders"
+        );
+    }
+});
+
+/**
+ * Unblock sender
+ * This function lifts one of the caller's blocks
+ */
+export const unblockSender = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<BlockedSenderData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const { blockId } = request.data;
+
+        if (!blockId) {
             throw new functions.https.HttpsError(
                 "invalid-argument",
-                "Missing organization ID"
+                "Missing block ID"
             );
         }
 
-        // Update organization's approved status
-        await admin.firestore()
-            .collection("organizations")
-            .doc(organizationId)
-            .update({
-                approved: approved === true,
-                updatedAt: admin.firestore.FieldValue.serverTimestamp()
-            });
+        await admin.firestore().collection("users").doc(auth.uid)
+            .collection("blockedSenders").doc(blockId).delete();
 
-        // If approved, send notification to organization admin
-        if (approved) {
-            // Get organization details
-            const orgDoc = await admin.firestore()
-                .collection("organizations")
-                .doc(organizationId)
-                .get();
-
-            if (!orgDoc.exists) {
-                throw new functions.https.HttpsError(
-                    "not-found",
-                    "Organization not found"
-                );
-            }
+        return { success: true, blockId };
+    } catch (error) {
+        logger.error("Error unblocking sender:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to unblock sender"
+        );
+    }
+});
 
-            const orgData = orgDoc.data();
+/**
+ * List moderation reports
+ * This function returns the report queue: all reports for super admins, or one organization's for its admins
+ */
+export const listModerationReports = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<ListModerationReportsData>) => {
+    try {
+        const data = request.data || {};
+        const auth = requireAuth(request.auth);
 
-            // Find org admin (first one associated with this org)
-            const adminsSnapshot = await admin.firestore()
-                .collection("orgAdmins")
-                .where("organizationId", "==", organizationId)
-                .limit(1)
-                .get();
+        // Org admins only ever see their own organization's reports
+        const organizationId = isSuperAdmin(auth) ? data.organizationId : data.organizationId ?? auth.token.organizationId;
+        if (!isSuperAdmin(auth)) {
+            requireOrgAdmin(auth, organizationId ?? "", "Only administrators can view moderation reports");
+        }
 
-            if (!adminsSnapshot.empty) {
-                const adminDoc = adminsSnapshot.docs[0];
-                const adminData = adminDoc.data();
-
-                // Send approval notification
-                const approvalMailOptions = {
-                    from: `Tickl Admin <${getConfig("EMAIL_USER")}>`,
-                    to: adminData.email,
-                    subject: `Your Organization ${orgData?.name} Has Been Approved on Tickl`,
-                    html: `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-            <h2 style="color: #3b82f6;">Organization Approved</h2>
-            <p>Hello,</p>
-            <p>Your organization <strong>${orgData?.name}</strong> has been approved on Tickl!</p>
-            <p>You can now access all administration features and manage your organization's settings.</p>
-            <p>Thank you for using Tickl.</p>
-            <p>Best regards,</p>
-            <p>The Tickl Team</p>
-          </div>
-        `,
-                };
+        const limit = Math.min(Math.max(data.limit || 25, 1), 100);
+        let query: admin.firestore.Query = admin.firestore().collection("messageReports");
+        if (organizationId) {
+            query = query.where("organizationId", "==", organizationId);
+        }
+        if (data.status) {
+            query = query.where("status", "==", data.status);
+        }
+        query = query.orderBy("createdAt", "desc").limit(limit);
 
-                await transporter.sendMail(approvalMailOptions);
-                logger.info("Organization approval email sent", { organizationId });
+        if (data.startAfter) {
+            const cursorDoc = await admin.firestore().collection("messageReports").doc(data.startAfter).get();
+            if (!cursorDoc.exists) {
+                throw new functions.https.HttpsError(
+                    "invalid-argument",
+                    "Invalid pagination cursor"
+                );
             }
+            query = query.startAfter(cursorDoc);
         }
 
-        // Return success
-        return { success: true };
+        const snapshot = await query.get();
+
+        return {
+            success: true,
+            reports: snapshot.docs.map(toReportSummary),
+            nextCursor: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+        };
     } catch (error) {
-        logger.error("Error approving organization:", error);
+        logger.error("Error listing moderation reports:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
         throw new functions.https.HttpsError(
             "internal",
-            error instanceof Error ? error.message : "Failed to approve organization"
+            error instanceof Error ? error.message : "Failed to list moderation reports"
         );
     }
 });
 
 /**
- * Create organization admin and send credentials
- * This function creates a user in Firebase Auth and sends login credentials to the admin
+ * Resolve moderation report
+ * This function closes a report, optionally taking the message down and banning its sender
+ * Org admins can resolve their organization's reports; platform-wide bans are for super admins only
  */
-export const createOrgAdminAndSendCredentials = functions.https.onCall({
+export const resolveModerationReport = functions.https.onCall({
     serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
-}, async (request: CallableRequest<CreateOrgAdminData>) => {
+}, async (request: CallableRequest<ResolveModerationReportData>) => {
     try {
-        logger.info("Starting createOrgAdminAndSendCredentials process");
-        const { data, auth } = request;
-
-        // Log request data (excluding password for security)
-        logger.info("Request data received:", {
-            email: data.email ? `${data.email.split("@")[0]}***@${data.email.split("@")[1]}` : undefined,
-            organizationId: data.organizationId,
-            organizationName: data.organizationName,
-            hasPassword: !!data.password
-        });
+        const auth = requireAuth(request.auth);
+        const { reportId, resolution, removeMessage, banSender, banDays } = request.data;
+        const note = typeof request.data.note === "string" ? request.data.note.trim().slice(0, 500) : null;
 
-        // Ensure the request is from an authenticated admin user
-        if (!auth) {
-            logger.error("Authentication missing in request");
+        if (!reportId || (resolution !== "dismissed" && resolution !== "actioned")) {
             throw new functions.https.HttpsError(
-                "unauthenticated",
-                "Authentication required"
+                "invalid-argument",
+                "A report ID and a resolution of dismissed or actioned are required"
             );
         }
-
-        // Get the caller's email
-        const callerEmail = auth.token?.email;
-        logger.info(`Request from user: ${callerEmail ? callerEmail.split("@")[0] + '***' : 'unknown'}`);
-
-        // Check if the caller is a super admin - ONLY super admins should be able to create organizations
-        if (callerEmail !== "ed22b059@smail.iitm.ac.in") {
-            logger.error("Caller is not super admin - permission denied");
+        if (banSender && !isSuperAdmin(auth)) {
             throw new functions.https.HttpsError(
                 "permission-denied",
-                "Only super administrators can create organizations and organization admins"
-            );
-        }
-
-        logger.info("Caller verified as super admin");
-
-
-        // Validate required data
-        const { email, password, organizationId, organizationName, dashboardUrl } = data;
-
-        if (!email || !password || !organizationId || !organizationName) {
-            logger.error("Missing required data", {
-                hasEmail: !!email,
-                hasPassword: !!password,
-                hasOrgId: !!organizationId,
-                hasOrgName: !!organizationName
-            });
-            throw new functions.https.HttpsError(
-                "invalid-argument",
-                "Missing required information"
+                "Only super administrators can ban senders"
             );
         }
-
-        // Validate email format
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        if (!emailRegex.test(email)) {
-            logger.error("Invalid email format");
+        if (banDays !== undefined && (!Number.isFinite(banDays) || banDays <= 0)) {
             throw new functions.https.HttpsError(
                 "invalid-argument",
-                "Invalid email format"
+                "Ban duration must be a positive number of days"
             );
         }
 
-        logger.info("Checking if organization exists");
-        // Verify organization exists
-        const orgRef = admin.firestore().collection("organizations").doc(organizationId);
-        const orgDoc = await orgRef.get();
+        const reportRef = admin.firestore().collection("messageReports").doc(reportId);
 
-        if (!orgDoc.exists) {
-            logger.error("Organization not found", { organizationId });
-            throw new functions.https.HttpsError(
-                "not-found",
-                "Organization not found"
-            );
-        }
-        logger.info("Organization exists", { organizationName });
+        const report = await admin.firestore().runTransaction(async (transaction) => {
+            const reportDoc = await transaction.get(reportRef);
+            const reportData = reportDoc.data();
 
-        // Check if user already exists
-        logger.info("Checking if user already exists");
-        try {
-            const userRecord = await admin.auth().getUserByEmail(email);
-            if (userRecord) {
-                logger.error("User already exists", { email: email.split("@")[0] + '***' });
+            if (!reportData) {
                 throw new functions.https.HttpsError(
-                    "already-exists",
-                    "A user with this email already exists"
+                    "not-found",
+                    "Report not found"
                 );
             }
-        } catch (error: any) {
-            // We expect an error if the user doesn't exist, which is what we want
-            if (error.code !== 'auth/user-not-found') {
-                logger.error("Unexpected error checking user existence", error);
-                throw error;
+            // Reports about users outside any organization are for super admins
+            if (!(reportData.organizationId ? isOrgAdmin(auth, reportData.organizationId) : isSuperAdmin(auth))) {
+                throw new functions.https.HttpsError(
+                    "permission-denied",
+                    "You can only resolve reports for your organization"
+                );
+            }
+            if (reportData.status !== "open") {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "Report is already resolved"
+                );
             }
-            logger.info("User does not exist yet, proceeding with creation");
-        }
 
-        // Create the user with Firebase Admin SDK
-        logger.info("Creating new user in Firebase Auth");
-        const userRecord = await admin.auth().createUser({
-            email: email,
-            password: password,
-            emailVerified: false,
-            disabled: false
-        });
+            const messageRef = admin.firestore().collection("anonymousMessages").doc(reportData.messageId);
+            const messageDoc = removeMessage ? await transaction.get(messageRef) : null;
+            const message = messageDoc?.data();
+            // Only visible messages were counted
+            const countedLink = message && (message.status ?? "visible") === "visible" ?
+                await getCountedPublicLink(transaction, message.recipientId) :
+                null;
 
-        logger.info("User created successfully", { uid: userRecord.uid });
+            if (banSender && !getSenderFingerprint(reportData)) {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "The sender of this message can't be identified"
+                );
+            }
 
-        // Create record in orgAdmins collection
-        logger.info("Creating record in orgAdmins collection");
-        await admin.firestore().collection("orgAdmins").doc(userRecord.uid).set({
-            email,
-            organizationId,
-            organizationName,
-            createdAt: admin.firestore.FieldValue.serverTimestamp()
-        });
-        logger.info("orgAdmins record created");
+            if (message && message.status !== "removed") {
+                transaction.update(messageRef, {
+                    status: "removed",
+                    removedAt: admin.firestore.FieldValue.serverTimestamp(),
+                    removedBy: auth.uid
+                });
+                transaction.delete(admin.firestore().collection("publicAnswers").doc(reportData.messageId));
 
-        // Update the organization with the admin
-        logger.info("Updating organization with new admin");
-        const orgData = orgDoc.data() || {};
-        const adminUsers = orgData.adminUsers || [];
+                if (countedLink) {
+                    transaction.update(countedLink.ref, {
+                        messageCount: admin.firestore.FieldValue.increment(-1),
+                        lastUpdated: admin.firestore.FieldValue.serverTimestamp()
+                    });
+                }
+            }
 
-        // Add the new admin to the list if not already there
-        if (!adminUsers.includes(userRecord.uid)) {
-            await orgRef.update({
-                adminUsers: [...adminUsers, userRecord.uid],
-                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+            if (banSender) {
+                transaction.set(admin.firestore().collection("senderBans").doc(reportData.senderFingerprint), {
+                    reportId,
+                    reason: reportData.reason,
+                    note,
+                    bannedBy: auth.uid,
+                    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                    expiresAt: banDays ? admin.firestore.Timestamp.fromMillis(Date.now() + banDays * 24 * 60 * 60 * 1000) : null
+                });
+            }
+
+            transaction.update(reportRef, {
+                status: "resolved",
+                resolution,
+                note,
+                messageRemoved: !!message,
+                senderBanned: banSender === true,
+                resolvedBy: auth.uid,
+                resolvedAt: admin.firestore.FieldValue.serverTimestamp()
             });
-            logger.info("Organization updated with new admin");
-        } else {
-            logger.info("Admin already in organization's adminUsers list");
-        }
 
-        // Check email configuration
-        const emailUser = getConfig("EMAIL_USER", "prakashkrjha04@gmail.com");
-        const emailPass = getConfig("EMAIL_PASS", "vjheiwvpsceqffyq");
+            return reportData;
+        });
 
-        if (!emailUser || !emailPass) {
-            logger.error("Email configuration missing", {
-                hasEmailUser: !!emailUser,
-                hasEmailPass: !!emailPass
+        await writeAuditLog(request, {
+            action: "report.resolve",
+            targetType: "messageReport",
+            targetId: reportId,
+            organizationId: report.organizationId ?? null,
+            before: { status: "open" },
+            after: { status: "resolved", resolution, note, removeMessage: removeMessage === true, banSender: banSender === true },
+        });
+        if (banSender) {
+            await writeAuditLog(request, {
+                action: "sender.ban",
+                targetType: "sender",
+                targetId: report.senderFingerprint,
+                after: { reportId, banDays: banDays ?? null, note },
             });
+        }
 
-            // Return partial success since we created the user but can't send email
-            return {
-                success: true,
-                userId: userRecord.uid,
-                emailSent: false,
-                emailError: "Email configuration missing"
-            };
+        logger.info(`Report ${reportId} resolved by ${auth.uid}`, { resolution, removeMessage, banSender });
+
+        return { success: true, reportId, resolution, notice: banSender ? SHARED_NETWORK_NOTICE : null };
+    } catch (error) {
+        logger.error("Error resolving moderation report:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
         }
+        throw new functions.https.HttpsError(
+            "internal",
+            error instanceof Error ? error.message : "Failed to resolve report"
+        );
+    }
+});
 
-        // Send email with credentials
-        logger.info("Preparing to send email with credentials");
-        const mailOptions = {
-            from: `Tickl Admin <${emailUser}>`,
-            to: email,
-            subject: `Your Admin Access to ${organizationName} on Tickl`,
-            html: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-        <h2 style="color: #3b82f6;">Tickl Organization Access</h2>
-        <p>Hello,</p>
-        <p>You have been granted administrator access to <strong>${organizationName}</strong> on Tickl.</p>
-        <p>Here are your login credentials:</p>
-        <div style="background-color: #f3f4f6; padding: 15px; border-radius: 5px; margin: 20px 0;">
-          <p style="margin: 5px 0;"><strong>Email:</strong> ${email}</p>
-          <p style="margin: 5px 0;"><strong>Password:</strong> ${password}</p>
-        </div>
-        <p>You can access the admin dashboard here:</p>
-        <p><a href="${dashboardUrl || getConfig("DASHBOARD_URL", "https://tickl-dashboard.web.app")}" style="color: #3b82f6;">${dashboardUrl || getConfig("DASHBOARD_URL", "https://tickl-dashboard.web.app")}</a></p>
-        <p>For security reasons, please change your password after your first login.</p>
-        <p>If you have any questions, please contact the organization owner.</p>
-        <p>Thank you,</p>
-        <p>The Tickl Team</p>
-      </div>
-    `,
-        };
+/**
+ * Update notification preferences
+ * This function sets how the caller hears about new messages: instantly, in a daily or weekly digest, or not at all
+ */
+export const updateNotificationPreferences = functions.https.onCall({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request: CallableRequest<NotificationPreferencesData>) => {
+    try {
+        const auth = requireAuth(request.auth);
+        const { mode } = request.data;
 
-        try {
-            logger.info("Sending email", { to: email.split("@")[0] + '***' });
-            await transporter.sendMail(mailOptions);
-            logger.info("Admin credentials email sent successfully");
-        } catch (emailError) {
-            logger.error("Failed to send email, but user was created:", emailError);
-            // Log email configurations (without showing the actual password)
-            logger.info("Email configuration:", {
-                emailUser,
-                emailServiceConfigured: !!emailPass,
-                transporterConfigured: !!transporter
-            });
-
-            // Still return success since the user was created
-            return {
-                success: true,
-                userId: userRecord.uid,
-                emailSent: false,
-                emailError: emailError instanceof Error ? emailError.message : "Unknown email error"
-            };
+        if (!NOTIFICATION_MODES.includes(mode)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `Mode must be one of ${NOTIFICATION_MODES.join(", ")}`
+            );
         }
 
-        // Return success
-        logger.info("Function completed successfully");
-        return {
-            success: true,
-            userId: userRecord.uid,
-            emailSent: true
-        };
+        await admin.firestore().collection("users").doc(auth.uid).set({
+            notificationPreferences: {
+                mode,
+                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+            }
+        }, { merge: true });
+
+        return { success: true, mode };
     } catch (error) {
-        logger.error("Error in createOrgAdminAndSendCredentials:", error);
+        logger.error("Error updating notification preferences:", error);
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
         throw new functions.https.HttpsError(
             "internal",
-            error instanceof Error ? error.message : "Failed to create admin and send credentials"
+            error instanceof Error ? error.message : "Failed to update notification preferences"
         );
     }
 });
 
 /**
- * Generate public link on profile completion
- * This trigger watches for user profile completion and generates a public link
+ * Notify new message
+ * This function emails recipients in instant mode when a visible message arrives
+ * At most one email per cooldown, so a burst of messages doesn't flood the inbox
  */
-export const generatePublicLink = functions.firestore.onDocumentUpdated({
+export const notifyNewMessage = functions.firestore.onDocumentCreated({
     serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com",
-    document: "users/{userId}",
+    document: "anonymousMessages/{messageId}",
     region: "us-central1",
 }, async (event) => {
     try {
-        if (!event.data) {
-            logger.error("Event data is undefined");
-            return null;
+        const message = event.data?.data();
+        if (!message || (message.status ?? "visible") !== "visible") {
+            return;
         }
 
-        const before = event.data.before.data();
-        const after = event.data.after.data();
-        const userId = event.params.userId;
-
-        // Only trigger when profile is newly completed
-        if (after.profileCompleted &&
-            (!before.profileCompleted || before.profileCompleted === false) &&
-            !after.publicLinkId) {
-
-            logger.info(`Generating public link for user: ${userId}`);
+        const userRef = admin.firestore().collection("users").doc(message.recipientId);
+        const user = await admin.firestore().runTransaction(async (transaction) => {
+            const userDoc = await transaction.get(userRef);
+            const userData = userDoc.data();
+            if (!userData || getNotificationMode(userData) !== "instant") {
+                return null;
+            }
 
-            // Generate a unique ID (use a UUID library in production)
-            const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-            let linkId = '';
-            for (let i = 0; i < 10; i++) {
-                linkId += chars.charAt(Math.floor(Math.random() * chars.length));
+            const lastInstantAt = userData.notificationState?.lastInstantAt as admin.firestore.Timestamp | undefined;
+            if (lastInstantAt && lastInstantAt.toMillis() + INSTANT_NOTIFICATION_COOLDOWN_MINUTES * 60 * 1000 > Date.now()) {
+                return null;
             }
 
-            // Create link document
-            await admin.firestore().collection('userPublicLinks').doc(linkId).set({
-                userId: userId,
-                createdAt: admin.firestore.FieldValue.serverTimestamp(),
-                isActive: true,
-                viewCount: 0,
-                messageCount: 0
-            });
+            transaction.update(userRef, { "notificationState.lastInstantAt": admin.firestore.FieldValue.serverTimestamp() });
+            return userData;
+        });
 
-            // Update user with their link ID
-            await event.data.after.ref.update({
-                publicLinkId: linkId,
-                publicProfileEnabled: true
-            });
+        if (!user) {
+            return;
+        }
 
-            logger.info(`Public link generated for user ${userId}: ${linkId}`);
-            return { success: true, linkId };
+        const email = await getNotificationEmail(message.recipientId, user);
+        if (!email) {
+            logger.warn(`No email address to notify user ${message.recipientId}`);
+            return;
         }
 
-        return null;
+        await enqueueEmail("newMessage", renderNotificationEmail("newMessage", email, message.recipientId, user.locale, {
+            snippet: toNotificationSnippet(message.message),
+        }), { organizationId: user.organizationId ?? null });
     } catch (error) {
-        logger.error("Error generating public link:", error);
-        return null;
+        logger.error("Error notifying new message:", error);
     }
 });
 
 /**
- * Submit anonymous message
- * This function handles anonymous message submission from public profile page
+ * Send message digests
+ * This scheduled job emails daily digests every morning and weekly digests on Mondays
  */
-export const submitAnonymousMessage = functions.https.onCall({
-    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
-}, async (request: CallableRequest<AnonymousMessageData>) => {
-    try {
-        const { linkId, message, senderName } = request.data;
+export const sendMessageDigests = functions.scheduler.onSchedule({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com",
+    schedule: "every day 08:00",
+    timeZone: "UTC",
+    region: "us-central1",
+    timeoutSeconds: 540,
+}, async () => {
+    const modes = new Date().getUTCDay() === 1 ? ["daily", "weekly"] : ["daily"];
+    let sent = 0;
+    let cursor: admin.firestore.QueryDocumentSnapshot | null = null;
 
-        // Validate inputs
-        if (!linkId || !message || !senderName) {
-            throw new functions.https.HttpsError(
-                "invalid-argument",
-                "Missing required fields"
-            );
+    for (;;) {
+        let query = admin.firestore().collection("users")
+            .where("notificationPreferences.mode", "in", modes)
+            .orderBy(admin.firestore.FieldPath.documentId())
+            .limit(200);
+        if (cursor) {
+            query = query.startAfter(cursor);
         }
 
-        // Look up link to find recipient
-        const linkDoc = await admin.firestore().collection('userPublicLinks').doc(linkId).get();
+        const snapshot = await query.get();
+        for (const userDoc of snapshot.docs) {
+            try {
+                if (await sendMessageDigest(userDoc, getNotificationMode(userDoc.data()) as "daily" | "weekly")) {
+                    sent++;
+                }
+            } catch (error) {
+                logger.error("Error sending message digest:", { userId: userDoc.id, error });
+            }
+        }
 
-        if (!linkDoc.exists) {
-            throw new functions.https.HttpsError(
-                "not-found",
-                "Invalid link"
-            );
+        if (snapshot.size < 200) {
+            break;
         }
+        cursor = snapshot.docs[snapshot.size - 1];
+    }
 
-        const linkData = linkDoc.data() as { userId: string, isActive: boolean };
+    logger.info("Message digests sent", { modes, sent });
+});
 
-        // Check if link is active
-        if (!linkData.isActive) {
-            throw new functions.https.HttpsError(
-                "failed-precondition",
-                "This link is no longer active"
-            );
+/**
+ * Unsubscribe from notifications
+ * This endpoint serves the unsubscribe link: GET only shows a confirmation page, because mail scanners
+ * and link prefetchers open every link, and POST (the page's form or List-Unsubscribe-Post) unsubscribes
+ */
+export const unsubscribeNotifications = functions.https.onRequest({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com"
+}, async (request, response) => {
+    // Mail clients sending List-Unsubscribe-Post expect a plain status; browsers get redirected
+    const oneClick = request.method === "POST" && request.body?.["List-Unsubscribe"] === "One-Click";
+    const fail = (status: number, reason: string, message: string) => {
+        if (oneClick) {
+            response.status(status).send(message);
+        } else {
+            response.redirect(303, `${UNSUBSCRIBE_FAILURE_URL}?reason=${reason}`);
         }
+    };
 
-        // Get recipient user
-        const userDoc = await admin.firestore().collection('users').doc(linkData.userId).get();
+    try {
+        if (request.method !== "GET" && request.method !== "POST") {
+            response.status(405).set("Allow", "GET, POST").send("Method not allowed");
+            return;
+        }
 
-        if (!userDoc.exists) {
-            throw new functions.https.HttpsError(
-                "not-found",
-                "Recipient user not found"
-            );
+        const userId = typeof request.query.uid === "string" ? request.query.uid : "";
+        const signature = typeof request.query.sig === "string" ? request.query.sig : "";
+        const expected = userId ? signUnsubscribe(userId) : "";
+
+        if (!userId || signature.length !== expected.length ||
+            !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+            logger.warn("Rejected unsubscribe link with invalid signature");
+            fail(400, "invalid", "Invalid unsubscribe link");
+            return;
         }
 
-        // Create anonymous message
-        const messageData = {
-            recipientId: linkData.userId,
-            senderName,
-            message,
-            createdAt: admin.firestore.FieldValue.serverTimestamp(),
-            read: false,
-            linkId,
-            ipAddress: request.rawRequest.ip || null
-        };
+        if (request.method === "GET") {
+            const action = `?uid=${encodeURIComponent(userId)}&sig=${encodeURIComponent(signature)}`;
+            response.status(200).set("Cache-Control", "no-store").send(
+                "<!DOCTYPE html><html><head><meta charset=\"utf-8\">" +
+                "<meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">" +
+                "<title>Unsubscribe</title></head><body>" +
+                "<h1>Unsubscribe from message notifications?</h1>" +
+                "<p>You will stop getting emails about new anonymous messages. You can turn them back on in your settings.</p>" +
+                `<form method="POST" action="${escapeHtml(action)}">` +
+                "<button type=\"submit\">Unsubscribe</button></form></body></html>"
+            );
+            return;
+        }
 
-        const messageRef = await admin.firestore().collection('anonymousMessages').add(messageData);
+        // Only existing users can be unsubscribed; never create a users document for an arbitrary ID
+        const userRef = admin.firestore().collection("users").doc(userId);
+        if (!(await userRef.get()).exists) {
+            logger.warn("Rejected unsubscribe link for unknown user");
+            fail(400, "invalid", "Invalid unsubscribe link");
+            return;
+        }
 
-        // Increment message count on the link
-        await linkDoc.ref.update({
-            messageCount: admin.firestore.FieldValue.increment(1),
-            lastUpdated: admin.firestore.FieldValue.serverTimestamp()
+        await userRef.update({
+            "notificationPreferences.mode": "off",
+            "notificationPreferences.updatedAt": admin.firestore.FieldValue.serverTimestamp()
         });
 
-        logger.info(`Anonymous message sent to user ${linkData.userId} via link ${linkId}`);
+        logger.info(`User ${userId} unsubscribed from message notifications`);
 
-        return {
-            success: true,
-            messageId: messageRef.id
-        };
+        if (oneClick) {
+            response.status(200).send("Unsubscribed");
+        } else {
+            response.redirect(303, UNSUBSCRIBE_SUCCESS_URL);
+        }
     } catch (error) {
-        logger.error("Error submitting anonymous message:", error);
-        throw new functions.https.HttpsError(
-            "internal",
-            error instanceof Error ? error.message : "Failed to submit message"
-        );
+        logger.error("Error unsubscribing from notifications:", error);
+        fail(500, "error", "Failed to unsubscribe");
+    }
+});
+
+/**
+ * Purge message metadata
+ * This scheduled job drops any plaintext sender IPs left on messages and, once a message is older
+ * than MESSAGE_METADATA_RETENTION_DAYS, strips its sender fingerprint entirely
+ */
+export const purgeMessageMetadata = functions.scheduler.onSchedule({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com",
+    schedule: "every day 03:00",
+    timeZone: "UTC",
+    region: "us-central1",
+    timeoutSeconds: 540,
+}, async () => {
+    const cutoffMs = Date.now() - MESSAGE_METADATA_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const messages = admin.firestore().collection("anonymousMessages");
+
+    // Messages stored before IPs were hashed; an IP alone can't rebuild a fingerprint, so it is just dropped
+    const migrated = await processQueryInBatches(messages.where("ipAddress", "!=", null), (batch, messageDoc) => {
+        batch.update(messageDoc.ref, { ipAddress: admin.firestore.FieldValue.delete() });
+    });
+
+    const stripped = await processQueryInBatches(
+        messages
+            .where("hasAbuseMetadata", "==", true)
+            .where("createdAt", "<", admin.firestore.Timestamp.fromMillis(cutoffMs)),
+        (batch, messageDoc) => {
+            batch.update(messageDoc.ref, {
+                senderFingerprint: admin.firestore.FieldValue.delete(),
+                hasAbuseMetadata: admin.firestore.FieldValue.delete(),
+                abuseMetadataPurgedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+        }
+    );
+
+    logger.info("Message metadata purge finished", { migrated, stripped, retentionDays: MESSAGE_METADATA_RETENTION_DAYS });
+});
+
+/**
+ * Purge expired email verifications
+ * This scheduled job deletes unverified emailVerifications documents whose code expired more than the grace period ago
+ * Verified records are kept: for users verified before users.organizationId existed they hold the organization
+ */
+export const purgeExpiredEmailVerifications = functions.scheduler.onSchedule({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com",
+    schedule: "every day 04:00",
+    timeZone: "UTC",
+    region: "us-central1",
+    timeoutSeconds: 540,
+}, async () => {
+    const cutoff = admin.firestore.Timestamp.fromMillis(Date.now() - EMAIL_VERIFICATION_PURGE_GRACE_HOURS * 60 * 60 * 1000);
+
+    const deleted = await processQueryInBatches(
+        admin.firestore()
+            .collection("emailVerifications")
+            .where("verified", "==", false)
+            .where("expiresAt", "<", cutoff),
+        (batch, verificationDoc) => batch.delete(verificationDoc.ref)
+    );
+
+    logger.info("Expired email verifications purged", { deleted });
+});
+
+/**
+ * Purge old outbox emails
+ * This scheduled job deletes sent and dead-lettered emailOutbox documents older than OUTBOX_RETENTION_DAYS,
+ * after which a dead letter can no longer be retried
+ */
+export const purgeEmailOutbox = functions.scheduler.onSchedule({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com",
+    schedule: "every day 05:00",
+    timeZone: "UTC",
+    region: "us-central1",
+    timeoutSeconds: 540,
+}, async () => {
+    const cutoff = admin.firestore.Timestamp.fromMillis(Date.now() - OUTBOX_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+    const deleted = await processQueryInBatches(
+        admin.firestore()
+            .collection("emailOutbox")
+            .where("status", "in", ["sent", "failed"])
+            .where("updatedAt", "<", cutoff),
+        (batch, outboxDoc) => batch.delete(outboxDoc.ref)
+    );
+
+    logger.info("Old outbox emails purged", { deleted, retentionDays: OUTBOX_RETENTION_DAYS });
+});
+
+/**
+ * Repair role claims
+ * This scheduled job re-applies userRoles assignments whose custom claims update never completed
+ */
+export const repairRoleClaims = functions.scheduler.onSchedule({
+    serviceAccount: "firebase-adminsdk-fbsvc@tickl-5c52c.iam.gserviceaccount.com",
+    schedule: "every 15 minutes",
+    region: "us-central1",
+}, async () => {
+    // Skip very recent records, whose claims may still be in the middle of being applied
+    const cutoff = admin.firestore.Timestamp.fromMillis(Date.now() - 5 * 60 * 1000);
+    const pendingSnapshot = await admin.firestore()
+        .collection("userRoles")
+        .where("claimsSynced", "==", false)
+        .where("updatedAt", "<", cutoff)
+        .limit(100)
+        .get();
+
+    let repaired = 0;
+    for (const roleDoc of pendingSnapshot.docs) {
+        const { role, organizationId } = roleDoc.data();
+        try {
+            await applyRoleClaims(roleDoc.id, role as Role, (organizationId as string | null | undefined) ?? null);
+            // The user may have refreshed with stale claims in the meantime
+            await admin.auth().revokeRefreshTokens(roleDoc.id);
+            repaired++;
+        } catch (error) {
+            logger.error("Failed to repair role claims", { uid: roleDoc.id, error });
+        }
     }
-});
\ No newline at end of file
+
+    logger.info("Role claims repair finished", { pending: pendingSnapshot.size, repaired });
+});
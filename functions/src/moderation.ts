@@ -0,0 +1,155 @@
+// Message moderation rules and detectors, shared by message submission and the rule editor
+import * as functions from "firebase-functions/v2";
+import * as logger from "firebase-functions/logger";
+
+const MODERATION_MAX_RULES = 200;
+const MODERATION_MAX_PATTERN_LENGTH = 200;
+
+export type ModerationVerdict = "allow" | "quarantine" | "reject";
+export type ModerationScope = "global" | "organization" | "user";
+
+// A blocklist entry; "word" patterns match whole words, "regex" patterns are case-insensitive
+// Regex rules run against untrusted text and can backtrack badly, so only global rules may use them
+export interface ModerationRule {
+    type: "word" | "regex";
+    pattern: string;
+    action: "quarantine" | "reject";
+    field?: "message" | "senderName" | "any";
+}
+
+// Verdicts for the built-in detectors, stored on moderationConfig/global
+export interface ModerationDetectors {
+    links: ModerationVerdict;
+    emails: ModerationVerdict;
+    phoneNumbers: ModerationVerdict;
+}
+
+export const MODERATION_VERDICT_RANK: Record<ModerationVerdict, number> = { allow: 0, quarantine: 1, reject: 2 };
+export const DEFAULT_MODERATION_DETECTORS: ModerationDetectors = {
+    links: "quarantine",
+    emails: "quarantine",
+    phoneNumbers: "quarantine",
+};
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|co|me|ly|gg|app|link|xyz)\b/i;
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[a-z]{2,}/i;
+const PHONE_CANDIDATE_PATTERN = /\+?\d[\d\s().-]{6,}\d/g;
+
+/**
+ * Check a rule list supplied by a caller, throwing an invalid-argument error on the first bad rule
+ */
+export const validateModerationRules = (rules: unknown, scope: ModerationScope): ModerationRule[] => {
+    if (!Array.isArray(rules) || rules.length > MODERATION_MAX_RULES) {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            `Rules must be an array of at most ${MODERATION_MAX_RULES} entries`
+        );
+    }
+
+    return rules.map((rule, index) => {
+        const { type, pattern, action, field = "any" } = (rule || {}) as Partial<ModerationRule>;
+        if (type !== "word" && type !== "regex") {
+            throw new functions.https.HttpsError("invalid-argument", `Rule ${index + 1}: type must be word or regex`);
+        }
+        if (type === "regex" && scope !== "global") {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `Rule ${index + 1}: regular expressions are only allowed in global rules`
+            );
+        }
+        if (action !== "quarantine" && action !== "reject") {
+            throw new functions.https.HttpsError("invalid-argument", `Rule ${index + 1}: action must be quarantine or reject`);
+        }
+        if (!["message", "senderName", "any"].includes(field)) {
+            throw new functions.https.HttpsError("invalid-argument", `Rule ${index + 1}: field must be message, senderName or any`);
+        }
+        if (typeof pattern !== "string" || !pattern.trim() || pattern.length > MODERATION_MAX_PATTERN_LENGTH) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `Rule ${index + 1}: pattern must be 1-${MODERATION_MAX_PATTERN_LENGTH} characters`
+            );
+        }
+        if (type === "regex") {
+            try {
+                new RegExp(pattern, "i");
+            } catch {
+                throw new functions.https.HttpsError("invalid-argument", `Rule ${index + 1}: invalid regular expression`);
+            }
+        }
+        return { type, pattern: pattern.trim(), action, field };
+    });
+};
+
+/**
+ * Compile a stored rule, skipping rules that no longer compile
+ */
+const compileModerationRule = (rule: ModerationRule): RegExp | null => {
+    try {
+        return rule.type === "word" ?
+            new RegExp(`(?:^|[^\\p{L}\\p{N}])${rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:$|[^\\p{L}\\p{N}])`, "iu") :
+            new RegExp(rule.pattern, "i");
+    } catch (error) {
+        logger.warn("Skipping invalid moderation rule", { rule, error });
+        return null;
+    }
+};
+
+/**
+ * Whether text contains something that looks like a phone number (9-15 digits)
+ */
+const containsPhoneNumber = (text: string): boolean => {
+    return (text.match(PHONE_CANDIDATE_PATTERN) || []).some((candidate) => {
+        const digits = candidate.replace(/\D/g, "").length;
+        return digits >= 9 && digits <= 15;
+    });
+};
+
+/**
+ * Run a message through the detectors and rules and return the strictest verdict with its reasons
+ * Reasons name the scope of a matching rule, never its pattern, since recipients can see them
+ */
+export const moderateMessage = (
+    content: { message: string, senderName: string },
+    ruleSets: Array<{ scope: ModerationScope, rules: ModerationRule[] }>,
+    detectors: ModerationDetectors
+): { verdict: ModerationVerdict, reasons: string[] } => {
+    let verdict: ModerationVerdict = "allow";
+    const reasons: string[] = [];
+    const flag = (result: ModerationVerdict, reason: string) => {
+        if (result === "allow") {
+            return;
+        }
+        reasons.push(reason);
+        if (MODERATION_VERDICT_RANK[result] > MODERATION_VERDICT_RANK[verdict]) {
+            verdict = result;
+        }
+    };
+
+    const combined = `${content.senderName}\n${content.message}`;
+    if (LINK_PATTERN.test(combined)) {
+        flag(detectors.links, "link");
+    }
+    if (EMAIL_PATTERN.test(combined)) {
+        flag(detectors.emails, "email");
+    }
+    if (containsPhoneNumber(combined)) {
+        flag(detectors.phoneNumbers, "phoneNumber");
+    }
+
+    for (const { scope, rules } of ruleSets) {
+        for (const rule of rules) {
+            // Regex rules saved for other scopes before they were restricted are ignored
+            const regex = rule.type === "regex" && scope !== "global" ? null : compileModerationRule(rule);
+            if (!regex) {
+                continue;
+            }
+            const text = rule.field === "message" ? content.message :
+                rule.field === "senderName" ? content.senderName : combined;
+            if (regex.test(text)) {
+                flag(rule.action, `rule:${scope}`);
+            }
+        }
+    }
+
+    return { verdict, reasons };
+};
@@ -0,0 +1,65 @@
+// Verification codes for email verification, stored only as salted hashes
+import * as logger from "firebase-functions/logger";
+import * as crypto from "crypto";
+import { getConfig, getNumberConfig } from "./config";
+
+const DEFAULT_OTP_ALPHABET = "0123456789";
+const DEFAULT_OTP_LENGTH = 4;
+const MIN_OTP_LENGTH = 4;
+const MAX_OTP_LENGTH = 12;
+
+/**
+ * Read OTP_LENGTH, falling back to the default when it is not a whole number from 4 to 12
+ * Shorter codes could be guessed within the attempt limit, and an empty code would always match
+ */
+const getOtpLength = (): number => {
+    const configured = getNumberConfig("OTP_LENGTH", DEFAULT_OTP_LENGTH);
+    if (!Number.isInteger(configured) || configured < MIN_OTP_LENGTH || configured > MAX_OTP_LENGTH) {
+        logger.error(`OTP_LENGTH must be a whole number from ${MIN_OTP_LENGTH} to ${MAX_OTP_LENGTH}; using ${DEFAULT_OTP_LENGTH} instead`);
+        return DEFAULT_OTP_LENGTH;
+    }
+    return configured;
+};
+
+/**
+ * Read OTP_ALPHABET, falling back to digits when it has fewer than 10 unique characters
+ * A tiny alphabet would make codes guessable (or constant), so it is never used as-is
+ */
+const getOtpAlphabet = (): string => {
+    const configured = [...new Set(getConfig("OTP_ALPHABET", DEFAULT_OTP_ALPHABET))].join("");
+    if (configured.length < 10) {
+        logger.error("OTP_ALPHABET must contain at least 10 unique characters; using digits instead");
+        return DEFAULT_OTP_ALPHABET;
+    }
+    return configured;
+};
+
+const OTP_LENGTH = getOtpLength();
+const OTP_ALPHABET = getOtpAlphabet();
+
+/**
+ * Generate a verification code using a CSPRNG
+ */
+export const generateOtp = (): string => {
+    let otp = "";
+    for (let i = 0; i < OTP_LENGTH; i++) {
+        otp += OTP_ALPHABET.charAt(crypto.randomInt(OTP_ALPHABET.length));
+    }
+    return otp;
+};
+
+/**
+ * Hash a verification code with the given salt so only the digest is stored
+ */
+export const hashOtp = (otp: string, salt: string): string => {
+    return crypto.createHmac("sha256", salt).update(otp).digest("hex");
+};
+
+/**
+ * Compare a submitted code with a stored hash in constant time
+ */
+export const otpMatches = (otp: string, salt: string, expectedHash: string): boolean => {
+    const actual = Buffer.from(hashOtp(otp, salt), "hex");
+    const expected = Buffer.from(expectedHash, "hex");
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,118 @@
+// Keyed hashes and signed tokens that identify visitors and senders without storing who they are
+import * as functions from "firebase-functions/v2";
+import * as crypto from "crypto";
+import { getNumberConfig, requireSecret } from "./config";
+
+// Leading zero bits required in a proof-of-work solution; 0 disables challenges
+export const MESSAGE_POW_DIFFICULTY = getNumberConfig("MESSAGE_POW_DIFFICULTY", 0);
+export const MESSAGE_CHALLENGE_TTL_SECONDS = getNumberConfig("MESSAGE_CHALLENGE_TTL_SECONDS", 5 * 60);
+
+/**
+ * Hash a visitor into a non-reversible fingerprint scoped to one link
+ * Scoping by link stops fingerprints from being correlated across profiles; without the
+ * dedicated VISITOR_HASH_SECRET the hash could be brute-forced, so nothing is recorded
+ */
+export const hashVisitor = (linkId: string, ip: string, userAgent: string): string => {
+    return crypto.createHmac("sha256", requireSecret("VISITOR_HASH_SECRET")).update(`${linkId}|${ip}|${userAgent}`).digest("hex");
+};
+
+/**
+ * Hash an identifier such as an IP address so it can be used as a document key without storing it
+ * IP_HASH_SECRET is required, since an unkeyed hash of an IPv4 address is trivially reversed;
+ * changing it resets rate limits, blocks and bans keyed by the old hashes
+ */
+export const hashIdentifier = (kind: string, value: string): string => {
+    return crypto.createHmac("sha256", requireSecret("IP_HASH_SECRET")).update(`${kind}|${value}`).digest("hex");
+};
+
+/**
+ * Key for signing message challenges; without it tokens could be forged, so challenges fail closed
+ */
+const getMessageChallengeSecret = (): string => requireSecret("MESSAGE_CHALLENGE_SECRET");
+
+/**
+ * Opaque reference to a link inside a challenge token, so a challenge issued for a handle doesn't reveal the link ID
+ */
+const getChallengeScope = (linkId: string): string => {
+    return crypto.createHmac("sha256", getMessageChallengeSecret()).update(`link|${linkId}`).digest("hex").slice(0, 32);
+};
+
+/**
+ * Sign a proof-of-work challenge for a link; the token carries everything needed to verify it later
+ */
+export const issueMessageChallengeToken = (linkId: string): { challenge: string, difficulty: number, expiresAt: number } => {
+    const nonce = crypto.randomBytes(16).toString("hex");
+    const expiresAt = Date.now() + MESSAGE_CHALLENGE_TTL_SECONDS * 1000;
+    const payload = `${getChallengeScope(linkId)}.${nonce}.${expiresAt}.${MESSAGE_POW_DIFFICULTY}`;
+    const signature = crypto.createHmac("sha256", getMessageChallengeSecret()).update(payload).digest("hex");
+    return { challenge: `${payload}.${signature}`, difficulty: MESSAGE_POW_DIFFICULTY, expiresAt };
+};
+
+/**
+ * Count leading zero bits of a digest
+ */
+export const leadingZeroBits = (digest: Buffer): number => {
+    let bits = 0;
+    for (const byte of digest) {
+        if (byte === 0) {
+            bits += 8;
+            continue;
+        }
+        bits += Math.clz32(byte) - 24;
+        break;
+    }
+    return bits;
+};
+
+/**
+ * Verify a solved challenge for a link, returning its nonce so it can be marked as used
+ * The client must find a solution where sha256("<challenge>:<solution>") has enough leading zero bits
+ */
+export const verifyMessageChallenge = (linkId: string, challenge: unknown, solution: unknown): string => {
+    const invalid = (message: string) => new functions.https.HttpsError(
+        "failed-precondition",
+        message,
+        { reason: "challenge-required" }
+    );
+
+    if (typeof challenge !== "string" || typeof solution !== "string" || solution.length > 64) {
+        throw invalid("A solved challenge is required to send a message");
+    }
+
+    const parts = challenge.split(".");
+    if (parts.length !== 5) {
+        throw invalid("Invalid challenge");
+    }
+    const [scope, nonce, expiresAt, difficulty, signature] = parts;
+    const expected = crypto.createHmac("sha256", getMessageChallengeSecret())
+        .update(`${scope}.${nonce}.${expiresAt}.${difficulty}`)
+        .digest("hex");
+
+    if (signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected)) ||
+        scope !== getChallengeScope(linkId)) {
+        throw invalid("Invalid challenge");
+    }
+    if (Number(expiresAt) < Date.now()) {
+        throw invalid("Challenge expired, please try again");
+    }
+    // Challenges issued before the difficulty was raised are no longer enough
+    if (!(Number(difficulty) >= MESSAGE_POW_DIFFICULTY)) {
+        throw invalid("Challenge expired, please try again");
+    }
+
+    const digest = crypto.createHash("sha256").update(`${challenge}:${solution}`).digest();
+    if (leadingZeroBits(digest) < Number(difficulty)) {
+        throw invalid("Invalid challenge solution");
+    }
+
+    return nonce;
+};
+
+/**
+ * Signature for a user's one-click unsubscribe link
+ * Anyone holding the key could unsubscribe any user, so there is no fallback to another secret
+ */
+export const signUnsubscribe = (userId: string): string => {
+    return crypto.createHmac("sha256", requireSecret("UNSUBSCRIBE_SECRET")).update(`unsubscribe.${userId}`).digest("hex");
+};
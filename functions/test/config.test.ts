@@ -0,0 +1,58 @@
+import * as logger from "firebase-functions/logger";
+import { assertRequiredSecrets, getConfig, getNumberConfig, requireSecret } from "../src/config";
+
+describe("getConfig", () => {
+    afterEach(() => {
+        delete process.env.TEST_SETTING;
+    });
+
+    it("reads the environment with a default", () => {
+        expect(getConfig("TEST_SETTING", "fallback")).toBe("fallback");
+        process.env.TEST_SETTING = "value";
+        expect(getConfig("TEST_SETTING", "fallback")).toBe("value");
+    });
+
+    it("falls back for unset or malformed numbers", () => {
+        expect(getNumberConfig("TEST_SETTING", 5)).toBe(5);
+        process.env.TEST_SETTING = "soon";
+        expect(getNumberConfig("TEST_SETTING", 5)).toBe(5);
+        process.env.TEST_SETTING = "12";
+        expect(getNumberConfig("TEST_SETTING", 5)).toBe(12);
+    });
+});
+
+describe("requireSecret", () => {
+    afterEach(() => {
+        delete process.env.TEST_SECRET;
+        jest.restoreAllMocks();
+    });
+
+    it("returns a configured secret", () => {
+        process.env.TEST_SECRET = "secret";
+        expect(requireSecret("TEST_SECRET")).toBe("secret");
+    });
+
+    it("fails closed when the secret is missing", () => {
+        const error = jest.spyOn(logger, "error").mockImplementation(() => undefined);
+        expect(() => requireSecret("TEST_SECRET")).toThrow(expect.objectContaining({ code: "unavailable" }));
+        expect(error).toHaveBeenCalledWith("TEST_SECRET is not configured");
+    });
+});
+
+describe("assertRequiredSecrets", () => {
+    afterEach(() => {
+        delete process.env.TEST_SECRET;
+        jest.restoreAllMocks();
+    });
+
+    it("passes when every secret is configured", () => {
+        process.env.TEST_SECRET = "secret";
+        expect(() => assertRequiredSecrets(["TEST_SECRET"])).not.toThrow();
+    });
+
+    it("names every missing secret", () => {
+        jest.spyOn(logger, "error").mockImplementation(() => undefined);
+        expect(() => assertRequiredSecrets(["TEST_SECRET", "OTHER_TEST_SECRET"]))
+            .toThrow("Missing required configuration: TEST_SECRET, OTHER_TEST_SECRET");
+    });
+});
@@ -0,0 +1,30 @@
+import { parseCsv, toCsvCell } from "../src/csv";
+
+describe("toCsvCell", () => {
+    it("leaves plain values alone", () => {
+        expect(toCsvCell("Acme")).toBe("Acme");
+        expect(toCsvCell(42)).toBe("42");
+        expect(toCsvCell(null)).toBe("");
+        expect(toCsvCell(undefined)).toBe("");
+    });
+
+    it("quotes values with separators, quotes or line breaks", () => {
+        expect(toCsvCell("Acme, Inc.")).toBe("\"Acme, Inc.\"");
+        expect(toCsvCell("The \"Best\" Co")).toBe("\"The \"\"Best\"\" Co\"");
+        expect(toCsvCell("two\nlines")).toBe("\"two\nlines\"");
+    });
+
+    it("neutralises values a spreadsheet would run as formulas", () => {
+        expect(toCsvCell("=HYPERLINK(\"http://evil\")")).toBe("\"'=HYPERLINK(\"\"http://evil\"\")\"");
+        expect(toCsvCell("+1+1")).toBe("'+1+1");
+        expect(toCsvCell("-2")).toBe("'-2");
+        expect(toCsvCell("@SUM(A1)")).toBe("'@SUM(A1)");
+        expect(toCsvCell("\tcmd")).toBe("'\tcmd");
+        expect(toCsvCell("\rcmd")).toBe("\"'\rcmd\"");
+    });
+
+    it("round-trips through parseCsv", () => {
+        const values = ["Acme, Inc.", "The \"Best\" Co", "plain"];
+        expect(parseCsv(values.map(toCsvCell).join(","))).toEqual([values]);
+    });
+});
@@ -0,0 +1,68 @@
+import { ModerationRule, moderateMessage, validateModerationRules } from "../src/moderation";
+
+const detectors = { links: "allow", emails: "allow", phoneNumbers: "allow" } as const;
+
+describe("validateModerationRules", () => {
+    it("normalizes valid word rules for every scope", () => {
+        for (const scope of ["global", "organization", "user"] as const) {
+            expect(validateModerationRules([{ type: "word", pattern: "  spam ", action: "reject" }], scope))
+                .toEqual([{ type: "word", pattern: "spam", action: "reject", field: "any" }]);
+        }
+    });
+
+    it("allows regex rules only in the global scope", () => {
+        const rules = [{ type: "regex", pattern: "free\\s+money", action: "quarantine", field: "message" }];
+        expect(validateModerationRules(rules, "global")).toEqual(rules);
+        expect(() => validateModerationRules(rules, "organization"))
+            .toThrow("Rule 1: regular expressions are only allowed in global rules");
+        expect(() => validateModerationRules(rules, "user"))
+            .toThrow("Rule 1: regular expressions are only allowed in global rules");
+    });
+
+    it("rejects invalid regular expressions", () => {
+        expect(() => validateModerationRules([{ type: "regex", pattern: "(unclosed", action: "reject" }], "global"))
+            .toThrow("Rule 1: invalid regular expression");
+    });
+
+    it("rejects malformed rules", () => {
+        expect(() => validateModerationRules("spam", "user")).toThrow(expect.objectContaining({ code: "invalid-argument" }));
+        expect(() => validateModerationRules([{ type: "glob", pattern: "x", action: "reject" }], "user"))
+            .toThrow("Rule 1: type must be word or regex");
+        expect(() => validateModerationRules([{ type: "word", pattern: "x", action: "delete" }], "user"))
+            .toThrow("Rule 1: action must be quarantine or reject");
+        expect(() => validateModerationRules([{ type: "word", pattern: "x", action: "reject", field: "email" }], "user"))
+            .toThrow("Rule 1: field must be message, senderName or any");
+        expect(() => validateModerationRules([{ type: "word", pattern: " ", action: "reject" }], "user"))
+            .toThrow("Rule 1: pattern must be 1-200 characters");
+        expect(() => validateModerationRules([{ type: "word", pattern: "x".repeat(201), action: "reject" }], "user"))
+            .toThrow("Rule 1: pattern must be 1-200 characters");
+    });
+
+    it("limits the number of rules", () => {
+        const rules = Array.from({ length: 201 }, () => ({ type: "word", pattern: "spam", action: "reject" }));
+        expect(() => validateModerationRules(rules, "global")).toThrow("Rules must be an array of at most 200 entries");
+    });
+});
+
+describe("moderateMessage", () => {
+    const content = { message: "Win free money now", senderName: "A friend" };
+
+    it("matches word rules on whole words only", () => {
+        const rules: ModerationRule[] = [{ type: "word", pattern: "free", action: "quarantine", field: "message" }];
+        expect(moderateMessage(content, [{ scope: "user", rules }], detectors).verdict).toBe("quarantine");
+        expect(moderateMessage({ ...content, message: "carefree" }, [{ scope: "user", rules }], detectors).verdict)
+            .toBe("allow");
+    });
+
+    it("reports the scope of a matching rule, never its pattern", () => {
+        const rules: ModerationRule[] = [{ type: "regex", pattern: "free\\s+money", action: "reject", field: "any" }];
+        expect(moderateMessage(content, [{ scope: "global", rules }], detectors))
+            .toEqual({ verdict: "reject", reasons: ["rule:global"] });
+    });
+
+    it("ignores regex rules stored outside the global scope", () => {
+        const rules: ModerationRule[] = [{ type: "regex", pattern: "(a+)+$", action: "reject", field: "any" }];
+        const result = moderateMessage({ ...content, message: `${"a".repeat(40)}!` }, [{ scope: "user", rules }], detectors);
+        expect(result).toEqual({ verdict: "allow", reasons: [] });
+    });
+});
@@ -0,0 +1,69 @@
+type OtpModule = typeof import("../src/otp");
+
+/**
+ * Load the OTP helpers with the given settings, since they are read once at module load
+ * Returns the helpers together with a spy on the logger they report bad settings to
+ */
+const loadOtp = (env: Record<string, string>): OtpModule & { error: jest.SpyInstance } => {
+    const previous = { ...process.env };
+    Object.assign(process.env, env);
+    try {
+        let loaded: (OtpModule & { error: jest.SpyInstance }) | undefined;
+        jest.isolateModules(() => {
+            /* eslint-disable @typescript-eslint/no-var-requires */
+            const logger = require("firebase-functions/logger") as typeof import("firebase-functions/logger");
+            const error = jest.spyOn(logger, "error").mockImplementation(() => undefined);
+            loaded = { ...(require("../src/otp") as OtpModule), error };
+            /* eslint-enable @typescript-eslint/no-var-requires */
+        });
+        return loaded as OtpModule & { error: jest.SpyInstance };
+    } finally {
+        process.env = previous;
+    }
+};
+
+describe("generateOtp", () => {
+    it("generates four digits by default", () => {
+        const { generateOtp, error } = loadOtp({});
+        for (let i = 0; i < 20; i++) {
+            expect(generateOtp()).toMatch(/^\d{4}$/);
+        }
+        expect(error).not.toHaveBeenCalled();
+    });
+
+    it("uses the configured length and alphabet", () => {
+        const { generateOtp } = loadOtp({ OTP_LENGTH: "8", OTP_ALPHABET: "ABCDEFGHJK" });
+        expect(generateOtp()).toMatch(/^[A-HJK]{8}$/);
+    });
+
+    it.each(["0", "3", "13", "6.5", "-4"])("falls back to four characters when OTP_LENGTH is %s", (length) => {
+        const { generateOtp, error } = loadOtp({ OTP_LENGTH: length });
+        expect(generateOtp()).toHaveLength(4);
+        expect(error).toHaveBeenCalledWith(expect.stringContaining("OTP_LENGTH must be a whole number from 4 to 12"));
+    });
+
+    it("falls back to digits when OTP_ALPHABET has fewer than 10 unique characters", () => {
+        const { generateOtp, error } = loadOtp({ OTP_ALPHABET: "AAAAABBBBBCCCCC" });
+        expect(generateOtp()).toMatch(/^\d{4}$/);
+        expect(error).toHaveBeenCalledWith("OTP_ALPHABET must contain at least 10 unique characters; using digits instead");
+    });
+});
+
+describe("hashOtp", () => {
+    const { hashOtp, otpMatches } = loadOtp({});
+
+    it("hashes codes with their salt", () => {
+        expect(hashOtp("1234", "salt")).toMatch(/^[0-9a-f]{64}$/);
+        expect(hashOtp("1234", "salt")).toBe(hashOtp("1234", "salt"));
+        expect(hashOtp("1234", "salt")).not.toBe(hashOtp("1234", "other-salt"));
+        expect(hashOtp("1234", "salt")).not.toBe(hashOtp("1235", "salt"));
+    });
+
+    it("matches only the code that was hashed", () => {
+        const stored = hashOtp("1234", "salt");
+        expect(otpMatches("1234", "salt", stored)).toBe(true);
+        expect(otpMatches("1235", "salt", stored)).toBe(false);
+        expect(otpMatches("1234", "other-salt", stored)).toBe(false);
+        expect(otpMatches("1234", "salt", "")).toBe(false);
+    });
+});
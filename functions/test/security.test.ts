@@ -0,0 +1,220 @@
+import * as crypto from "crypto";
+import * as logger from "firebase-functions/logger";
+import {
+    hashIdentifier,
+    hashVisitor,
+    issueMessageChallengeToken,
+    leadingZeroBits,
+    signUnsubscribe,
+    verifyMessageChallenge,
+} from "../src/security";
+
+/**
+ * Find a solution for a challenge the way the public page does
+ */
+const solve = (challenge: string, difficulty: number): string => {
+    for (let attempt = 0; ; attempt++) {
+        const digest = crypto.createHash("sha256").update(`${challenge}:${attempt}`).digest();
+        if (leadingZeroBits(digest) >= difficulty) {
+            return String(attempt);
+        }
+    }
+};
+
+/**
+ * Run a test with an environment variable temporarily changed
+ */
+const withEnv = (key: string, value: string | undefined, run: () => void) => {
+    const previous = process.env[key];
+    if (value === undefined) {
+        delete process.env[key];
+    } else {
+        process.env[key] = value;
+    }
+    try {
+        run();
+    } finally {
+        if (previous === undefined) {
+            delete process.env[key];
+        } else {
+            process.env[key] = previous;
+        }
+    }
+};
+
+// Missing secrets are logged before failing closed; keep the test output quiet
+beforeEach(() => {
+    jest.spyOn(logger, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe("hashVisitor", () => {
+    it("is stable for the same visitor and link", () => {
+        expect(hashVisitor("link-1", "203.0.113.7", "Mozilla/5.0")).toMatch(/^[0-9a-f]{64}$/);
+        expect(hashVisitor("link-1", "203.0.113.7", "Mozilla/5.0")).toBe(hashVisitor("link-1", "203.0.113.7", "Mozilla/5.0"));
+    });
+
+    it("scopes fingerprints to a link", () => {
+        expect(hashVisitor("link-1", "203.0.113.7", "Mozilla/5.0")).not.toBe(hashVisitor("link-2", "203.0.113.7", "Mozilla/5.0"));
+        expect(hashVisitor("link-1", "203.0.113.7", "Mozilla/5.0")).not.toBe(hashVisitor("link-1", "203.0.113.8", "Mozilla/5.0"));
+    });
+
+    it("is keyed by VISITOR_HASH_SECRET", () => {
+        const hash = hashVisitor("link-1", "203.0.113.7", "Mozilla/5.0");
+        withEnv("VISITOR_HASH_SECRET", "another-secret", () => {
+            expect(hashVisitor("link-1", "203.0.113.7", "Mozilla/5.0")).not.toBe(hash);
+        });
+    });
+
+    it("fails closed without a secret", () => {
+        withEnv("VISITOR_HASH_SECRET", undefined, () => {
+            expect(() => hashVisitor("link-1", "203.0.113.7", "Mozilla/5.0")).toThrow(expect.objectContaining({ code: "unavailable" }));
+        });
+    });
+});
+
+describe("hashIdentifier", () => {
+    it("is stable for the same input", () => {
+        expect(hashIdentifier("ip", "203.0.113.7")).toBe(hashIdentifier("ip", "203.0.113.7"));
+    });
+
+    it("separates kinds and values", () => {
+        expect(hashIdentifier("ip", "203.0.113.7")).not.toBe(hashIdentifier("sender", "203.0.113.7"));
+        expect(hashIdentifier("ip", "203.0.113.7")).not.toBe(hashIdentifier("ip", "203.0.113.8"));
+    });
+
+    it("is keyed by IP_HASH_SECRET", () => {
+        const hash = hashIdentifier("ip", "203.0.113.7");
+        expect(hash).not.toBe(crypto.createHash("sha256").update("ip|203.0.113.7").digest("hex"));
+        withEnv("IP_HASH_SECRET", "another-secret", () => {
+            expect(hashIdentifier("ip", "203.0.113.7")).not.toBe(hash);
+        });
+    });
+
+    it("fails closed without a secret", () => {
+        withEnv("IP_HASH_SECRET", undefined, () => {
+            expect(() => hashIdentifier("ip", "203.0.113.7")).toThrow(expect.objectContaining({ code: "unavailable" }));
+        });
+    });
+});
+
+describe("signUnsubscribe", () => {
+    it("signs each user differently", () => {
+        expect(signUnsubscribe("user-1")).toMatch(/^[0-9a-f]{64}$/);
+        expect(signUnsubscribe("user-1")).toBe(signUnsubscribe("user-1"));
+        expect(signUnsubscribe("user-1")).not.toBe(signUnsubscribe("user-2"));
+    });
+
+    it("depends on UNSUBSCRIBE_SECRET", () => {
+        const signature = signUnsubscribe("user-1");
+        withEnv("UNSUBSCRIBE_SECRET", "another-secret", () => {
+            expect(signUnsubscribe("user-1")).not.toBe(signature);
+        });
+    });
+
+    it("refuses to sign without a secret", () => {
+        withEnv("UNSUBSCRIBE_SECRET", undefined, () => {
+            expect(() => signUnsubscribe("user-1")).toThrow(expect.objectContaining({ code: "unavailable" }));
+        });
+    });
+});
+
+describe("verifyMessageChallenge", () => {
+    const rejection = (message: string) => expect.objectContaining({ code: "failed-precondition", message });
+
+    it("accepts a solved challenge and returns its nonce", () => {
+        const { challenge, difficulty } = issueMessageChallengeToken("link-1");
+        expect(difficulty).toBe(8);
+        expect(challenge).not.toContain("link-1");
+
+        const nonce = verifyMessageChallenge("link-1", challenge, solve(challenge, difficulty));
+        expect(nonce).toBe(challenge.split(".")[1]);
+    });
+
+    it("requires a challenge and solution", () => {
+        expect(() => verifyMessageChallenge("link-1", undefined, "1"))
+            .toThrow(rejection("A solved challenge is required to send a message"));
+        const { challenge } = issueMessageChallengeToken("link-1");
+        expect(() => verifyMessageChallenge("link-1", challenge, "1".repeat(65)))
+            .toThrow(rejection("A solved challenge is required to send a message"));
+    });
+
+    it("rejects a challenge issued for another link", () => {
+        const { challenge, difficulty } = issueMessageChallengeToken("link-1");
+        expect(() => verifyMessageChallenge("link-2", challenge, solve(challenge, difficulty)))
+            .toThrow(rejection("Invalid challenge"));
+    });
+
+    it("rejects a tampered challenge", () => {
+        const { challenge } = issueMessageChallengeToken("link-1");
+        const parts = challenge.split(".");
+        parts[3] = "0";
+        const tampered = parts.join(".");
+        expect(() => verifyMessageChallenge("link-1", tampered, solve(tampered, 0)))
+            .toThrow(rejection("Invalid challenge"));
+    });
+
+    it("rejects a challenge signed with another secret", () => {
+        let challenge = "";
+        withEnv("MESSAGE_CHALLENGE_SECRET", "another-secret", () => {
+            challenge = issueMessageChallengeToken("link-1").challenge;
+        });
+        expect(() => verifyMessageChallenge("link-1", challenge, solve(challenge, 8)))
+            .toThrow(rejection("Invalid challenge"));
+    });
+
+    it("rejects an expired challenge", () => {
+        const { challenge, difficulty, expiresAt } = issueMessageChallengeToken("link-1");
+        const solution = solve(challenge, difficulty);
+        const now = jest.spyOn(Date, "now").mockReturnValue(expiresAt + 1);
+        try {
+            expect(() => verifyMessageChallenge("link-1", challenge, solution))
+                .toThrow(rejection("Challenge expired, please try again"));
+        } finally {
+            now.mockRestore();
+        }
+    });
+
+    it("rejects a challenge issued at a lower difficulty than the current one", () => {
+        let challenge = "";
+        jest.isolateModules(() => {
+            withEnv("MESSAGE_POW_DIFFICULTY", "1", () => {
+                // eslint-disable-next-line @typescript-eslint/no-var-requires
+                const easier = require("../src/security") as typeof import("../src/security");
+                challenge = easier.issueMessageChallengeToken("link-1").challenge;
+            });
+        });
+        expect(() => verifyMessageChallenge("link-1", challenge, solve(challenge, 8)))
+            .toThrow(rejection("Challenge expired, please try again"));
+    });
+
+    it("rejects a wrong solution", () => {
+        const { challenge, difficulty } = issueMessageChallengeToken("link-1");
+        let wrong = 0;
+        while (leadingZeroBits(crypto.createHash("sha256").update(`${challenge}:${wrong}`).digest()) >= difficulty) {
+            wrong++;
+        }
+        expect(() => verifyMessageChallenge("link-1", challenge, String(wrong)))
+            .toThrow(rejection("Invalid challenge solution"));
+    });
+
+    it("fails closed without a secret", () => {
+        const { challenge, difficulty } = issueMessageChallengeToken("link-1");
+        const solution = solve(challenge, difficulty);
+        withEnv("MESSAGE_CHALLENGE_SECRET", undefined, () => {
+            expect(() => verifyMessageChallenge("link-1", challenge, solution))
+                .toThrow(expect.objectContaining({ code: "unavailable" }));
+        });
+    });
+});
+
+describe("leadingZeroBits", () => {
+    it("counts zero bits across bytes", () => {
+        expect(leadingZeroBits(Buffer.from([0xff]))).toBe(0);
+        expect(leadingZeroBits(Buffer.from([0x01]))).toBe(7);
+        expect(leadingZeroBits(Buffer.from([0x00, 0x20]))).toBe(10);
+    });
+});
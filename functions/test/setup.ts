@@ -0,0 +1,6 @@
+// Secrets and settings the helpers read from the environment
+process.env.VISITOR_HASH_SECRET = "test-visitor-hash-secret";
+process.env.MESSAGE_CHALLENGE_SECRET = "test-message-challenge-secret";
+process.env.MESSAGE_POW_DIFFICULTY = "8";
+process.env.UNSUBSCRIBE_SECRET = "test-unsubscribe-secret";
+process.env.IP_HASH_SECRET = "test-ip-hash-secret";